@@ -7,6 +7,7 @@ pragma solidity ^0.8.28;
  */
 contract MockedEnsRegistry {
     mapping(bytes32 => address) private _owners;
+    mapping(bytes32 => address) private _resolvers;
     
     function owner(bytes32 node) external view returns (address) {
         return _owners[node];
@@ -15,4 +16,12 @@ contract MockedEnsRegistry {
     function setOwner(bytes32 node, address newOwner) external {
         _owners[node] = newOwner;
     }
+
+    function resolver(bytes32 node) external view returns (address) {
+        return _resolvers[node];
+    }
+
+    function setResolver(bytes32 node, address newResolver) external {
+        _resolvers[node] = newResolver;
+    }
 }
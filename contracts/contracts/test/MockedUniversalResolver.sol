@@ -0,0 +1,164 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IENSRegistry} from '../interfaces/IENSRegistry.sol';
+import {IExtendedResolver} from '../resolver/IExtendedResolver.sol';
+
+interface IBatchGateway {
+    struct Query {
+        address sender;
+        string[] urls;
+        bytes data;
+    }
+
+    function query(
+        Query[] memory queries
+    ) external view returns (bool[] memory failures, bytes[] memory responses);
+}
+
+/**
+ * @title MockedUniversalResolver
+ * @dev Minimal ENS UniversalResolver for testing CCIP-Read flows end to end.
+ * Offchain lookups are forwarded through the batch gateway protocol,
+ * the same way viem expects from `resolveWithGateways`
+ */
+contract MockedUniversalResolver {
+    IENSRegistry immutable ens;
+
+    error OffchainLookup(
+        address sender,
+        string[] urls,
+        bytes callData,
+        bytes4 callbackFunction,
+        bytes extraData
+    );
+    error ResolverNotFound(bytes name);
+    error ResolverError(bytes errorData);
+    error HttpError(uint16 status, string message);
+
+    constructor(address _ens_registry) {
+        ens = IENSRegistry(_ens_registry);
+    }
+
+    function resolveWithGateways(
+        bytes calldata name,
+        bytes calldata data,
+        string[] calldata gateways
+    ) external view returns (bytes memory, address) {
+        address resolver = findResolver(name);
+        if (resolver == address(0)) {
+            revert ResolverNotFound(name);
+        }
+
+        (bool success, bytes memory result) = resolver.staticcall(
+            abi.encodeCall(IExtendedResolver.resolve, (name, data))
+        );
+        if (success) {
+            return (abi.decode(result, (bytes)), resolver);
+        }
+        if (bytes4(result) != OffchainLookup.selector) {
+            revert ResolverError(result);
+        }
+        _batchOffchainLookup(resolver, result, gateways);
+    }
+
+    function resolveCallback(
+        bytes calldata response,
+        bytes calldata extraData
+    ) external view returns (bytes memory, address) {
+        (bool[] memory failures, bytes[] memory responses) = abi.decode(
+            response,
+            (bool[], bytes[])
+        );
+        (address resolver, bytes4 callback, bytes memory resolverExtraData) = abi
+            .decode(extraData, (address, bytes4, bytes));
+
+        if (failures[0]) {
+            bytes memory err = responses[0];
+            assembly {
+                revert(add(err, 32), mload(err))
+            }
+        }
+
+        (bool success, bytes memory result) = resolver.staticcall(
+            abi.encodeWithSelector(callback, responses[0], resolverExtraData)
+        );
+        if (!success) {
+            revert ResolverError(result);
+        }
+        return (abi.decode(result, (bytes)), resolver);
+    }
+
+    /**
+     * @dev Finds the resolver of the name or its closest parent (ENSIP-10)
+     */
+    function findResolver(bytes calldata name) public view returns (address) {
+        uint256 offset = 0;
+        while (offset < name.length) {
+            address resolver = ens.resolver(_namehash(name, offset));
+            if (resolver != address(0)) {
+                return resolver;
+            }
+            uint256 len = uint8(name[offset]);
+            if (len == 0) {
+                break;
+            }
+            offset += len + 1;
+        }
+        return address(0);
+    }
+
+    function _batchOffchainLookup(
+        address resolver,
+        bytes memory lookup,
+        string[] calldata gateways
+    ) internal view {
+        (
+            address sender,
+            string[] memory urls,
+            bytes memory callData,
+            bytes4 callback,
+            bytes memory extraData
+        ) = abi.decode(
+                _stripSelector(lookup),
+                (address, string[], bytes, bytes4, bytes)
+            );
+
+        IBatchGateway.Query[] memory queries = new IBatchGateway.Query[](1);
+        queries[0] = IBatchGateway.Query(sender, urls, callData);
+
+        revert OffchainLookup(
+            address(this),
+            gateways,
+            abi.encodeCall(IBatchGateway.query, (queries)),
+            this.resolveCallback.selector,
+            abi.encode(resolver, callback, extraData)
+        );
+    }
+
+    function _namehash(
+        bytes calldata name,
+        uint256 offset
+    ) internal pure returns (bytes32) {
+        uint256 len = uint8(name[offset]);
+        if (len == 0) {
+            return bytes32(0);
+        }
+        return
+            keccak256(
+                abi.encodePacked(
+                    _namehash(name, offset + len + 1),
+                    keccak256(name[offset + 1:offset + 1 + len])
+                )
+            );
+    }
+
+    function _stripSelector(
+        bytes memory data
+    ) internal pure returns (bytes memory stripped) {
+        stripped = new bytes(data.length - 4);
+        for (uint256 i = 0; i < stripped.length; i++) {
+            stripped[i] = data[i + 4];
+        }
+    }
+}
@@ -48,6 +48,12 @@ describe('L1Resolver - Resolution', () => {
       account: owner.account,
     });
 
+    // Root name is resolved onchain by the L1Resolver itself
+    await mockedEnsRegistry.write.setResolver([
+      rootNode,
+      l1Resolver.address
+    ]);
+
     const client = await viem.getPublicClient();
 
     return {
@@ -0,0 +1,93 @@
+import { Hono } from "hono";
+import { getConnInfo } from "@hono/node-server/conninfo";
+import { CCIPReadHandler } from "./ccip-read/handler";
+import { type Env } from "./env";
+import { bearerAuth } from "hono/bearer-auth";
+import { cors } from "hono/cors";
+import { requestId } from "hono/request-id";
+import { logger, withRequestContext } from "./logger";
+import { metricsRegistry } from "./metrics";
+import { requestGuard } from "./middleware/request-guard";
+import { MemoryRateLimitStore } from "./middleware/rate-limit-store";
+
+export function createApp(
+  env: Env,
+  ccip_handler: CCIPReadHandler = new CCIPReadHandler(env)
+): Hono {
+  const app = new Hono();
+
+  // CORS configuration
+  app.use(
+    "*",
+    cors({
+      origin: "*",
+      allowMethods: ["GET", "POST", "OPTIONS"],
+      allowHeaders: ["Content-Type", "Authorization", "X-Request-Id"],
+      exposeHeaders: ["X-Request-Id"],
+    })
+  );
+
+  // Request id is taken from X-Request-Id header or generated,
+  // and attached to every log line written while handling the request
+  app.use("*", requestId());
+  app.use("*", async (c, next) => {
+    const start = performance.now();
+    await withRequestContext({ request_id: c.get("requestId") }, async () => {
+      await next();
+      logger.info("Request completed", {
+        method: c.req.method,
+        path: c.req.path,
+        status: c.res.status,
+        duration_ms: Math.round(performance.now() - start),
+      });
+    });
+  });
+
+  // Simple health endpoint
+  app.get("/", (c) => c.json({ ok: true }));
+
+  // Prometheus metrics
+  app.get("/metrics", async (c) => {
+    return c.text(await metricsRegistry.metrics(), 200, {
+      "Content-Type": metricsRegistry.contentType,
+    });
+  });
+
+  // Sender allowlist, request size cap and rate limiting
+  app.use(
+    "/resolve/:sender/:data",
+    requestGuard({
+      config: env.protection,
+      store: new MemoryRateLimitStore(),
+      getClientIp: (c) => {
+        const forwarded = c.req.header("X-Forwarded-For");
+        if (env.protection.trust_proxy && forwarded) {
+          return forwarded.split(",")[0]?.trim();
+        }
+        return getConnInfo(c).remote.address;
+      },
+    })
+  );
+
+  // GET /resolve/:sender/:data.json
+  app.get("/resolve/:sender/:data", (c) => {
+    return ccip_handler.handle(c.req);
+  });
+
+  // POST /resolve/:sender/:data.json
+  app.post("/resolve/:sender/:data", async (c) => {
+    return ccip_handler.handle(c.req);
+  });
+
+  // Debug endpoints are only exposed when an admin token is configured
+  if (env.admin_token) {
+    app.use("/debug/*", bearerAuth({ token: env.admin_token }));
+
+    // GET /debug/resolve?name=alice.celo.eth&record=text:avatar
+    app.get("/debug/resolve", (c) => {
+      return ccip_handler.debug(c.req);
+    });
+  }
+
+  return app;
+}
@@ -0,0 +1,86 @@
+import { encodeFunctionData, isHex, size, type Hash } from "viem";
+import { InvalidRecordError } from "./errors";
+import { RESOLVER_ABI } from "./types";
+
+// JSON, zlib-compressed JSON, CBOR and URI (ENSIP-4)
+const ALL_ABI_CONTENT_TYPES = 15n;
+
+const parseUint = (record: string, value: string): bigint => {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidRecordError(record);
+  }
+  return BigInt(value);
+};
+
+/**
+ * Encodes the resolver call of a record written as `type[:argument]`, e.g.
+ * `addr`, `addr:0`, `text:avatar`, `contenthash`, `name`, `pubkey`, `abi:1`
+ * or `interface:0x01ffc9a7`
+ */
+export const encodeRecordCall = (record: string, node: Hash): Hash => {
+  const separator = record.indexOf(":");
+  const type = separator === -1 ? record : record.slice(0, separator);
+  const argument = separator === -1 ? undefined : record.slice(separator + 1);
+
+  switch (type) {
+    case "addr":
+      return argument === undefined
+        ? encodeFunctionData({ abi: RESOLVER_ABI, functionName: "addr", args: [node] })
+        : encodeFunctionData({
+            abi: RESOLVER_ABI,
+            functionName: "addr",
+            args: [node, parseUint(record, argument)],
+          });
+    case "text":
+      if (!argument) {
+        throw new InvalidRecordError(record);
+      }
+      return encodeFunctionData({
+        abi: RESOLVER_ABI,
+        functionName: "text",
+        args: [node, argument],
+      });
+    case "abi":
+      return encodeFunctionData({
+        abi: RESOLVER_ABI,
+        functionName: "ABI",
+        args: [
+          node,
+          argument === undefined
+            ? ALL_ABI_CONTENT_TYPES
+            : parseUint(record, argument),
+        ],
+      });
+    case "interface":
+      if (!argument || !isHex(argument) || size(argument) !== 4) {
+        throw new InvalidRecordError(record);
+      }
+      return encodeFunctionData({
+        abi: RESOLVER_ABI,
+        functionName: "interfaceImplementer",
+        args: [node, argument],
+      });
+    case "contenthash":
+    case "name":
+    case "pubkey":
+      if (argument !== undefined) {
+        throw new InvalidRecordError(record);
+      }
+      return encodeFunctionData({
+        abi: RESOLVER_ABI,
+        functionName: type,
+        args: [node],
+      });
+    default:
+      throw new InvalidRecordError(record);
+  }
+};
+
+// Debug responses contain decoded uint256 values which JSON.stringify can't handle
+export const debugJsonResponse = (body: object): Response =>
+  new Response(
+    JSON.stringify(body, (_, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    ),
+    { status: 200, headers: { "Content-Type": "application/json" } }
+  );
@@ -0,0 +1,75 @@
+// Errors surfaced to CCIP-Read clients. EIP-3668 expects a JSON `{ message }`
+// body, 4xx statuses are final while 5xx make clients try the next gateway url
+export abstract class GatewayError extends Error {
+  abstract readonly status: number;
+
+  public toResponse(): Response {
+    return Response.json({ message: this.message }, { status: this.status });
+  }
+}
+
+// Calldata is not a `resolve(bytes,bytes)` call or wraps a resolver
+// function the L2 resolver doesn't implement
+export class UnsupportedFunctionError extends GatewayError {
+  readonly status = 400;
+
+  constructor(details: string) {
+    super(`Unsupported function: ${details}`);
+  }
+}
+
+// Record queried on the debug endpoint can't be encoded as a resolver call
+export class InvalidRecordError extends GatewayError {
+  readonly status = 400;
+
+  constructor(record: string) {
+    super(`Invalid record: ${record}`);
+  }
+}
+
+// Name is not a subname of any parent name served by this gateway
+export class NameNotServedError extends GatewayError {
+  readonly status = 404;
+
+  constructor(name: string) {
+    super(`Name ${name} is not served by this gateway`);
+  }
+}
+
+// Name was revoked or has never been registered on L2, expired
+// names are still answered with empty records
+export class NameNotRegisteredError extends GatewayError {
+  readonly status = 404;
+
+  constructor(name: string) {
+    super(`Name ${name} is not registered or has been revoked`);
+  }
+}
+
+// L2 rpc couldn't be reached or returned an invalid response
+export class UpstreamRpcError extends GatewayError {
+  readonly status = 502;
+
+  constructor(chainId: number, cause?: unknown) {
+    super(`Failed to query L2 registry on chain ${chainId}`, { cause });
+  }
+}
+
+// Indexer serving primary names couldn't be reached or returned an error
+export class IndexerUnavailableError extends GatewayError {
+  readonly status = 502;
+
+  constructor(cause?: unknown) {
+    super("Failed to query primary names from the indexer", { cause });
+  }
+}
+
+// Remote response signer couldn't be reached, didn't answer in time
+// or returned an invalid response
+export class SignerUnavailableError extends GatewayError {
+  readonly status = 502;
+
+  constructor(reason: string, cause?: unknown) {
+    super(`Response signer unavailable: ${reason}`, { cause });
+  }
+}
@@ -1,23 +1,94 @@
 import type { HonoRequest } from "hono";
-import { decodeFunctionData, isAddress, isHex } from "viem/utils";
+import {
+  decodeFunctionData,
+  decodeFunctionResult,
+  encodeFunctionData,
+  encodeFunctionResult,
+  isAddress,
+  isAddressEqual,
+  isHex,
+} from "viem/utils";
 import type { CCIPReadRequest } from "./types";
-import { dnsDecodeName } from "./utils";
+import { dnsDecodeName, dnsEncodeName } from "./utils";
 import { RESOLVER_ABI } from "./types";
 import { z } from "zod";
 import { Web3Client } from "./web3-client";
-import type { Hash } from "viem";
+import { namehash, slice, zeroAddress, type Address, type Hash } from "viem";
+import {
+  IndexerReverseSource,
+  parseReverseName,
+  RegistryReverseSource,
+  type ReverseRecordSource,
+} from "./reverse";
 import { type Env } from "../env";
+import { findRoute, type L2Route } from "./routes";
+import {
+  GatewayError,
+  NameNotRegisteredError,
+  NameNotServedError,
+  UnsupportedFunctionError,
+} from "./errors";
+import { debugJsonResponse, encodeRecordCall } from "./debug";
+import { encodeEmptyResult, getResolverFunction } from "./results";
+import { logger } from "../logger";
+import { ResponsePolicy } from "../policy/response-policy";
+import { requestsCounter } from "../metrics";
 
 const schema = z.object({
   sender: z.string().refine((value) => isAddress(value)),
   data: z.string().refine((value) => isHex(value)),
 });
 
+const debugSchema = z.object({
+  name: z.string().min(1).toLowerCase(),
+  // e.g. `addr`, `addr:0`, `text:avatar`, `contenthash`
+  record: z.string().min(1),
+  sender: z
+    .string()
+    .refine((value) => isAddress(value))
+    .optional(),
+});
+
+// Result to sign and the expiry of the name it was read from, the
+// signature isn't valid past the expiry. Expired names have none as
+// their empty records stay valid until the name is renewed
+interface ResolvedResult {
+  result: Hash;
+  nameExpiry?: bigint;
+}
+
+const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000));
+
+// Functions which can't be forwarded to the L2 resolver as a single call
+const NON_RESOLVER_FUNCTIONS = ["resolve", "multicall"];
+
 export class CCIPReadHandler {
   private web3Client: Web3Client;
+  private reverseSource: ReverseRecordSource;
+  private policy: ResponsePolicy;
+  private unwatchRecordChanges: () => void;
 
-  constructor(private readonly env: Env) {
-    this.web3Client = new Web3Client(env);
+  constructor(
+    private readonly env: Env,
+    web3Client?: Web3Client,
+    reverseSource?: ReverseRecordSource
+  ) {
+    this.web3Client = web3Client || new Web3Client(env);
+    // Primary names come from the indexer when configured, otherwise from
+    // the reverse records of the L2 registries
+    this.reverseSource =
+      reverseSource ||
+      (env.indexer_url
+        ? new IndexerReverseSource(env.indexer_url)
+        : new RegistryReverseSource(this.web3Client, env.routes));
+    this.policy = new ResponsePolicy(env.policy_path);
+    this.unwatchRecordChanges = this.web3Client.watchRecordChanges();
+  }
+
+  // Stops watching L2 registries for record changes and policy updates
+  close() {
+    this.unwatchRecordChanges();
+    this.policy.close();
   }
 
   async handle(req: HonoRequest): Promise<Response> {
@@ -30,34 +101,345 @@ export class CCIPReadHandler {
     }
 
     const { sender, data } = safe.data as CCIPReadRequest;
+    // resolver function is known only after the calldata is decoded
+    const labels = { function: "unknown" };
+
+    let response: Response;
+    try {
+      response = await this.resolve(sender, data, labels);
+    } catch (err) {
+      response = this.errorResponse(err, sender);
+    }
+
+    requestsCounter.inc({ function: labels.function, status: response.status });
+    return response;
+  }
+
+  // Resolves a single record of `name` the same way as `handle` and
+  // returns every intermediate step, used to debug resolution issues
+  async debug(req: HonoRequest): Promise<Response> {
+    const safe = debugSchema.safeParse(req.query());
+    if (!safe.success) {
+      return Response.json(
+        { message: "Invalid request", error: safe.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { name, record } = safe.data;
+    // Signatures are bound to the sender, defaults to the first allowed L1Resolver
+    const sender = (safe.data.sender ||
+      this.env.protection.allowed_senders[0] ||
+      zeroAddress) as Address;
+
+    try {
+      return await this.debugResolve(sender, name, record);
+    } catch (err) {
+      return this.errorResponse(err, sender);
+    }
+  }
 
-    const decodedBaseFunction = decodeFunctionData({
+  private async debugResolve(sender: Address, name: string, record: string) {
+    const route = findRoute(this.env.routes, name);
+    if (!route) {
+      throw new NameNotServedError(name);
+    }
+
+    const node = namehash(name);
+    const dnsEncodedName = dnsEncodeName(name);
+    const calldata = encodeRecordCall(record, node);
+    const request = encodeFunctionData({
       abi: RESOLVER_ABI,
-      data: data,
+      functionName: "resolve",
+      args: [dnsEncodedName, calldata],
+    });
+
+    logger.info("Debugging name resolution", { name, record, sender });
+
+    const expiry = await this.getRegisteredExpiry(route, name);
+    const expired = expiry <= nowSeconds();
+
+    // Expired names are answered without querying the L2 resolver
+    const { result: rawResult, cache } = expired
+      ? { result: null, cache: null }
+      : await this.web3Client.performL2ResolverCallWithCacheStatus(
+          route,
+          dnsEncodedName,
+          calldata,
+          expiry
+        );
+    const result = rawResult
+      ? this.policy.apply(name, calldata, rawResult)
+      : encodeEmptyResult(calldata);
+    const signedResponse = await this.web3Client.signedResolverResponse(
+      sender,
+      request,
+      result,
+      expired ? undefined : expiry
+    );
+    return debugJsonResponse({
+      name,
+      node,
+      dns_encoded_name: dnsEncodedName,
+      expiry,
+      expired,
+      calldata,
+      request,
+      raw_result: rawResult,
+      // result after policy rules, the one which is signed
+      result,
+      decoded: decodeFunctionResult({
+        abi: [getResolverFunction(calldata)],
+        data: result,
+      }),
+      cache,
+      sender,
+      signed_response: signedResponse,
+    });
+  }
+
+  private errorResponse(err: unknown, sender: Address): Response {
+    if (err instanceof GatewayError) {
+      logger.warn("Failed to resolve request", {
+        sender,
+        status: err.status,
+        error: err.message,
+      });
+      return err.toResponse();
+    }
+
+    logger.error("Unexpected error while resolving request", {
+      sender,
+      error: err,
     });
+    return Response.json({ message: "Internal gateway error" }, { status: 500 });
+  }
 
-    const { args } = decodedBaseFunction;
-    const dnsEncodedName = args[0];
-    const encodedResolverCall = args[1];
+  private async resolve(
+    sender: Address,
+    data: Hash,
+    labels: { function: string }
+  ): Promise<Response> {
+    const [dnsEncodedName, encodedResolverCall] = this.decodeResolveCall(data);
     const name = dnsDecodeName(dnsEncodedName);
+    const reverseAddress = parseReverseName(name);
 
-    const decodedResolverFunction = decodeFunctionData({
-      abi: RESOLVER_ABI,
-      data: args[1] as any,
+    const { result, nameExpiry } = reverseAddress
+      ? await this.resolveReverse(
+          sender,
+          reverseAddress,
+          encodedResolverCall,
+          labels
+        )
+      : await this.resolveForward(
+          sender,
+          name,
+          dnsEncodedName,
+          encodedResolverCall,
+          labels
+        );
+
+    const signedResponse = await this.web3Client.signedResolverResponse(
+      sender,
+      data,
+      result,
+      nameExpiry
+    );
+
+    return Response.json({ data: signedResponse }, { status: 200 });
+  }
+
+  private async resolveForward(
+    sender: Address,
+    name: string,
+    dnsEncodedName: Hash,
+    encodedResolverCall: Hash,
+    labels: { function: string }
+  ): Promise<ResolvedResult> {
+    const route = findRoute(this.env.routes, name);
+
+    if (!route) {
+      throw new NameNotServedError(name);
+    }
+
+    const { functionName, args: funcArgs } =
+      this.decodeResolverCall(encodedResolverCall);
+
+    labels.function = functionName;
+
+    if (functionName === "resolve") {
+      throw new UnsupportedFunctionError("nested resolve");
+    }
+
+    const innerCalls =
+      functionName === "multicall" ? (funcArgs[0] as readonly Hash[]) : [];
+    innerCalls.forEach((call) => {
+      const inner = this.decodeResolverCall(call);
+      if (NON_RESOLVER_FUNCTIONS.includes(inner.functionName)) {
+        throw new UnsupportedFunctionError(`nested ${inner.functionName}`);
+      }
+    });
+
+    logger.info("Resolving name", {
+      name,
+      sender,
+      function: functionName,
+      args: funcArgs,
     });
-    const { functionName, args: funcArgs } = decodedResolverFunction;
 
-    console.log(`Resolving name: ${name}, function: ${functionName}, args: ${funcArgs}`)
+    const expiry = await this.getRegisteredExpiry(route, name);
+    const expired = expiry <= nowSeconds();
+    if (expired) {
+      logger.info("Name has expired, returning empty records", {
+        name,
+        expiry,
+      });
+    }
+
+    const resolveCall = async (call: Hash) =>
+      expired
+        ? encodeEmptyResult(call)
+        : this.resolveCall(route, name, dnsEncodedName, call, expiry);
+
+    const result =
+      functionName === "multicall"
+        ? await this.resolveMulticall(innerCalls, resolveCall)
+        : await resolveCall(encodedResolverCall);
+
+    return { result, nameExpiry: expired ? undefined : expiry };
+  }
 
-    const resolvedData = await this.web3Client.performL2ResolverCall(
+  // Policy rules are applied after the cache, so rule
+  // changes take effect without waiting for entries to expire
+  private async resolveCall(
+    route: L2Route,
+    name: string,
+    dnsEncodedName: Hash,
+    encodedResolverCall: Hash,
+    nameExpiry: bigint
+  ): Promise<Hash> {
+    const result = await this.web3Client.performL2ResolverCall(
+      route,
       dnsEncodedName,
-      encodedResolverCall as Hash
+      encodedResolverCall,
+      nameExpiry
     );
+    return this.policy.apply(name, encodedResolverCall, result);
+  }
 
-    const signedResponse = await 
-        this.web3Client.signedResolverResponse(sender, data, resolvedData)
+  // `[address].addr.reverse` names only support `name(bytes32)`,
+  // an empty name is returned when the address has no primary name
+  private async resolveReverse(
+    sender: Address,
+    address: Address,
+    encodedResolverCall: Hash,
+    labels: { function: string }
+  ): Promise<ResolvedResult> {
+    const { functionName } = this.decodeResolverCall(encodedResolverCall);
+    labels.function = functionName;
 
+    if (functionName !== "name") {
+      throw new UnsupportedFunctionError(`${functionName} on reverse name`);
+    }
 
-    return Response.json({ data: signedResponse }, { status: 200 });
+    logger.info("Resolving reverse name", { address, sender });
+
+    const primaryName = await this.getVerifiedPrimaryName(address);
+    return {
+      result: encodeFunctionResult({
+        abi: RESOLVER_ABI,
+        functionName: "name",
+        result: primaryName?.name || "",
+      }),
+      nameExpiry: primaryName?.expiry,
+    };
+  }
+
+  // A reverse record is only returned if the name is served by the gateway,
+  // is still active and its addr record points back to the same address
+  private async getVerifiedPrimaryName(address: Address) {
+    const name = await this.reverseSource.getName(address);
+    const route = name ? findRoute(this.env.routes, name) : undefined;
+    if (!name || !route) {
+      return null;
+    }
+
+    if (this.policy.isNameBlocked(name)) {
+      logger.info("Primary name blocked by policy", { address, name });
+      return null;
+    }
+
+    const node = namehash(name);
+    const expiry = await this.web3Client.getNameExpiry(route, node);
+    if (expiry <= nowSeconds()) {
+      return null;
+    }
+
+    const addrResult = await this.web3Client.performL2ResolverCall(
+      route,
+      dnsEncodeName(name),
+      encodeFunctionData({ abi: RESOLVER_ABI, functionName: "addr", args: [node] }),
+      expiry
+    );
+    const forwardAddress = decodeFunctionResult({
+      abi: RESOLVER_ABI,
+      functionName: "addr",
+      args: [node],
+      data: addrResult,
+    });
+
+    if (!isAddressEqual(forwardAddress, address)) {
+      logger.info("Reverse record does not match forward address", {
+        address,
+        name,
+      });
+      return null;
+    }
+    return { name, expiry };
+  }
+
+  // Outer call has to be `resolve(bytes name, bytes data)` as sent by the L1Resolver
+  private decodeResolveCall(data: Hash): [Hash, Hash] {
+    const decoded = this.decodeResolverCall(data);
+    if (decoded.functionName !== "resolve") {
+      throw new UnsupportedFunctionError(
+        `expected resolve, received ${decoded.functionName}`
+      );
+    }
+    return decoded.args as [Hash, Hash];
+  }
+
+  private decodeResolverCall(data: Hash) {
+    try {
+      return decodeFunctionData({ abi: RESOLVER_ABI, data });
+    } catch {
+      throw new UnsupportedFunctionError(
+        data.length >= 10 ? `selector ${slice(data, 0, 4)}` : "invalid calldata"
+      );
+    }
+  }
+
+  // Expiry of a registered name, which may be in the past
+  private async getRegisteredExpiry(route: L2Route, name: string) {
+    const expiry = await this.web3Client.getNameExpiry(route, namehash(name));
+    if (expiry === 0n) {
+      throw new NameNotRegisteredError(name);
+    }
+    return expiry;
+  }
+
+  // ENSIP-10 batched resolution, every inner call is resolved against
+  // the L2 resolver separately and the results are packed as bytes[]
+  private async resolveMulticall(
+    calls: readonly Hash[],
+    resolveCall: (call: Hash) => Promise<Hash>
+  ): Promise<Hash> {
+    const results = await Promise.all(calls.map(resolveCall));
+
+    return encodeFunctionResult({
+      abi: RESOLVER_ABI,
+      functionName: "multicall",
+      result: results,
+    });
   }
 }
@@ -0,0 +1,49 @@
+import {
+  encodeAbiParameters,
+  getAbiItem,
+  pad,
+  slice,
+  zeroAddress,
+  type AbiFunction,
+  type AbiParameter,
+  type Hash,
+} from "viem";
+import { RESOLVER_ABI } from "./types";
+
+const zeroValue = (param: AbiParameter): unknown => {
+  if (param.type.endsWith("]")) {
+    return [];
+  }
+  if (param.type === "tuple" && "components" in param) {
+    return param.components.map(zeroValue);
+  }
+  if (param.type === "address") {
+    return zeroAddress;
+  }
+  if (param.type === "bool") {
+    return false;
+  }
+  if (param.type === "string") {
+    return "";
+  }
+  if (param.type === "bytes") {
+    return "0x";
+  }
+  if (param.type.startsWith("bytes")) {
+    return pad("0x", { size: Number(param.type.slice(5)) });
+  }
+  return 0n;
+};
+
+// ABI item of the resolver function called by `encodedCall`,
+// overloaded functions like `addr` are told apart by their selector
+export const getResolverFunction = (encodedCall: Hash): AbiFunction =>
+  getAbiItem({ abi: RESOLVER_ABI, name: slice(encodedCall, 0, 4) }) as AbiFunction;
+
+// Result of a resolver call with every output set to its zero value,
+// the same encoding the L2 resolver returns for a record which isn't set
+export const encodeEmptyResult = (encodedCall: Hash): Hash => {
+  const { outputs } = getResolverFunction(encodedCall);
+
+  return encodeAbiParameters(outputs, outputs.map(zeroValue));
+};
@@ -0,0 +1,124 @@
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  getAddress,
+  namehash,
+  type Address,
+} from "viem";
+import { RESOLVER_ABI } from "./types";
+import { dnsEncodeName } from "./utils";
+import { IndexerUnavailableError } from "./errors";
+import { findRoute, type L2Route } from "./routes";
+import type { Web3Client } from "./web3-client";
+
+const REVERSE_NAME = /^([0-9a-f]{40})\.addr\.reverse$/;
+
+// Address of an ENSIP-3 reverse name `<hex address>.addr.reverse`
+export const parseReverseName = (name: string): Address | null => {
+  const match = REVERSE_NAME.exec(name.toLowerCase());
+  return match ? getAddress(`0x${match[1]}`) : null;
+};
+
+export const getReverseName = (address: Address): string => {
+  return `${address.slice(2).toLowerCase()}.addr.reverse`;
+};
+
+export interface ReverseRecordSource {
+  // Name which the address has set as its primary name, null if none
+  getName(address: Address): Promise<string | null>;
+}
+
+const DEFAULT_INDEXER_TIMEOUT_MS = 5000;
+
+// Chains of the indexer `primary_names` rows, in order of preference
+const PRIMARY_NAME_CHAINS = ["ethereum", "celo"];
+
+interface IndexerPrimaryName {
+  chain: string;
+  full_name: string;
+}
+
+/**
+ * Reads primary names from the indexer `GET /addresses/:address/primary-names`
+ * endpoint. Names set by the address itself through the ENS reverse registrar
+ * (chain "ethereum") are preferred over the reverse records of the L2 registry
+ */
+export class IndexerReverseSource implements ReverseRecordSource {
+  constructor(
+    private readonly url: string,
+    private readonly timeout = DEFAULT_INDEXER_TIMEOUT_MS
+  ) {}
+
+  async getName(address: Address): Promise<string | null> {
+    let response: Response;
+    try {
+      response = await fetch(
+        `${this.url.replace(/\/$/, "")}/addresses/${address.toLowerCase()}/primary-names`,
+        { signal: AbortSignal.timeout(this.timeout) }
+      );
+    } catch (err) {
+      throw new IndexerUnavailableError(err);
+    }
+
+    if (!response.ok) {
+      throw new IndexerUnavailableError(
+        new Error(`Indexer responded with status ${response.status}`)
+      );
+    }
+
+    const { primary_names } = (await response.json()) as {
+      primary_names: IndexerPrimaryName[];
+    };
+    for (const chain of PRIMARY_NAME_CHAINS) {
+      const primaryName = primary_names.find((row) => row.chain === chain);
+      if (primaryName) {
+        return primaryName.full_name;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Reads reverse records stored in the NameResolver profile of the
+ * L2 registries, under the node of `<hex address>.addr.reverse`.
+ * Only registrars can write those nodes, users set their primary name
+ * through the ENS reverse registrar which is read by `IndexerReverseSource`
+ */
+export class RegistryReverseSource implements ReverseRecordSource {
+  constructor(
+    private readonly web3Client: Web3Client,
+    private readonly routes: L2Route[]
+  ) {}
+
+  // First reverse record which names a name served by the route it's read from,
+  // a registry can't set primary names for names of another route
+  async getName(address: Address): Promise<string | null> {
+    for (const route of this.routes) {
+      const name = await this.getRouteName(route, address);
+      if (name && findRoute(this.routes, name) === route) {
+        return name;
+      }
+    }
+    return null;
+  }
+
+  private async getRouteName(route: L2Route, address: Address) {
+    const reverseName = getReverseName(address);
+    const result = await this.web3Client.performL2ResolverCall(
+      route,
+      dnsEncodeName(reverseName),
+      encodeFunctionData({
+        abi: RESOLVER_ABI,
+        functionName: "name",
+        args: [namehash(reverseName)],
+      })
+    );
+
+    return decodeFunctionResult({
+      abi: RESOLVER_ABI,
+      functionName: "name",
+      data: result,
+    });
+  }
+}
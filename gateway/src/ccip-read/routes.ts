@@ -0,0 +1,86 @@
+import { readFileSync } from "fs";
+import { isAddress, type Address, type Chain } from "viem";
+import { z } from "zod";
+import { getChainById } from "./chains";
+
+// Maps a parent name (e.g celo.eth) to the L2 registry serving its subnames,
+// an empty suffix matches every name
+export interface L2Route {
+  suffix: string;
+  chain: Chain;
+  rpc_url?: string;
+  l2_resolver: Address;
+}
+
+const routesSchema = z.object({
+  routes: z
+    .array(
+      z.object({
+        suffix: z.string(),
+        chain_id: z.number().int(),
+        rpc_url: z.string().optional(),
+        resolver: z.string().refine((value) => isAddress(value)),
+      })
+    )
+    .min(1)
+    // a suffix served by two registries would silently use only one of them
+    .superRefine((routes, ctx) => {
+      const suffixes = new Set<string>();
+      for (const route of routes) {
+        const suffix = route.suffix.toLowerCase();
+        if (suffixes.has(suffix)) {
+          ctx.addIssue({
+            code: "custom",
+            message: `Duplicate route suffix: ${suffix}`,
+          });
+        }
+        suffixes.add(suffix);
+      }
+    }),
+});
+
+export const loadRoutesConfig = (path: string): L2Route[] => {
+  const config = routesSchema.safeParse(
+    JSON.parse(readFileSync(path, "utf-8"))
+  );
+
+  if (!config.success) {
+    throw new Error(`Invalid routes config ${path}: ${config.error.message}`);
+  }
+
+  return config.data.routes.map((route) => {
+    const chain = getChainById(route.chain_id);
+    if (!chain) {
+      throw new Error(`Unsupported chain with id: ${route.chain_id}`);
+    }
+
+    return {
+      suffix: route.suffix.toLowerCase(),
+      chain,
+      rpc_url: route.rpc_url,
+      l2_resolver: route.resolver as Address,
+    };
+  });
+};
+
+// Returns the route with the longest suffix matching the name
+export const findRoute = (
+  routes: L2Route[],
+  name: string
+): L2Route | null => {
+  const lowerName = name.toLowerCase();
+  let match: L2Route | null = null;
+
+  for (const route of routes) {
+    const matches =
+      route.suffix === "" ||
+      lowerName === route.suffix ||
+      lowerName.endsWith(`.${route.suffix}`);
+
+    if (matches && (!match || route.suffix.length > match.suffix.length)) {
+      match = route;
+    }
+  }
+
+  return match;
+};
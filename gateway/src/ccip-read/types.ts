@@ -5,6 +5,9 @@ export interface CCIPReadRequest {
     data: Hash
 }
 
+// Resolver functions which can have their own cache ttl
+export type ResolverRecordType = "addr" | "text" | "contenthash" | "ABI" | "default"
+
 export const RESOLVER_ABI = parseAbi([
   "function resolve(bytes name, bytes data) view returns(bytes)",
   "function addr(bytes32 node) view returns (address)",
@@ -12,4 +15,30 @@ export const RESOLVER_ABI = parseAbi([
   "function text(bytes32 node, string key) view returns (string memory)",
   "function contenthash(bytes32 node) view returns (bytes memory)",
   "function ABI(bytes32 node, uint256 contentTypes) view returns (uint256, bytes memory)",
-]);
\ No newline at end of file
+  "function name(bytes32 node) view returns (string memory)",
+  "function pubkey(bytes32 node) view returns (bytes32 x, bytes32 y)",
+  "function interfaceImplementer(bytes32 node, bytes4 interfaceID) view returns (address)",
+  "function multicall(bytes[] data) returns (bytes[] results)",
+]);
+
+export const REGISTRY_ABI = parseAbi([
+  "function expiries(bytes32 node) view returns (uint256)",
+]);
+
+// Registry events after which cached records of a node are stale
+export const RECORD_CHANGE_EVENTS = parseAbi([
+  "event TextChanged(bytes32 indexed node, string indexed indexedKey, string key, string value)",
+  "event AddrChanged(bytes32 indexed node, address a)",
+  "event AddressChanged(bytes32 indexed node, uint256 coinType, bytes newAddress)",
+  "event ContenthashChanged(bytes32 indexed node, bytes hash)",
+  "event NameChanged(bytes32 indexed node, string name)",
+  "event PubkeyChanged(bytes32 indexed node, bytes32 x, bytes32 y)",
+  "event InterfaceChanged(bytes32 indexed node, bytes4 indexed interfaceID, address implementer)",
+  "event ABIChanged(bytes32 indexed node, uint256 indexed contentType)",
+  // emitted by `clearRecords`, every record of the node is wiped
+  "event VersionChanged(bytes32 indexed node, uint64 newVersion)",
+  "event NewName(string label, uint64 expiry, address indexed owner, bytes32 indexed node)",
+  "event ExpiryUpdated(bytes32 indexed node, uint256 expiry)",
+  "event NewOwner(bytes32 node, address newOwner)",
+  "event NameRevoked(bytes32 indexed node, address admin)",
+]);
@@ -1,4 +1,9 @@
-import { bytesToString, toBytes, type ByteArray } from "viem"
+import { bytesToString, toBytes, toHex, type ByteArray, type Hash } from "viem"
+import { packetToBytes } from "viem/ens"
+
+export function dnsEncodeName(name: string): Hash {
+  return toHex(packetToBytes(name))
+}
 
 export function dnsDecodeName(encodedName: string): string {
   const bytesName = toBytes(encodedName)
@@ -1,72 +1,171 @@
 import {
+  BaseError,
+  ContractFunctionRevertedError,
+  concat,
   createPublicClient,
+  decodeFunctionData,
   encodeAbiParameters,
   encodePacked,
   http,
   keccak256,
-  serializeSignature,
+  hexToBigInt,
+  namehash,
+  stringToHex,
+  toHex,
   type Address,
   type Hash,
 } from "viem";
-import { RESOLVER_ABI } from "./types";
+import {
+  RECORD_CHANGE_EVENTS,
+  REGISTRY_ABI,
+  RESOLVER_ABI,
+  type ResolverRecordType,
+} from "./types";
 import { type Env } from "../env";
-import { sign } from "viem/accounts";
 import { alchemy } from "evm-providers";
+import { dnsDecodeName } from "./utils";
+import { createResolutionCache, type ResolutionCache } from "../resolution-cache";
+import { createRotatingSigner, type ResponseSigner } from "../signers";
+import type { L2Route } from "./routes";
+import { UnsupportedFunctionError, UpstreamRpcError } from "./errors";
+import { logger } from "../logger";
+import { cacheRequestsCounter, rpcDuration, signingDuration } from "../metrics";
+
+export type L2Client = ReturnType<typeof createPublicClient>;
+export type L2ClientFactory = (route: L2Route) => L2Client;
+export type CacheStatus = "hit" | "miss";
+
+const EXPIRY_CACHE_KEY = "expiry";
 
-// 5 minute cache per request
-const CACHE_EXPIRY_TIME = 5 * 60 * 1000;
+export const createL2Client = (
+  route: L2Route,
+  alchemy_token?: string
+): L2Client => {
+  const rpc_url =
+    route.rpc_url ||
+    (alchemy_token ? alchemy(route.chain.id as any, alchemy_token) : undefined);
+  //@ts-ignore
+  return createPublicClient({
+    transport: http(rpc_url),
+    chain: route.chain,
+  });
+};
 
 export class Web3Client {
-  // We can store the the 5 minutes resolution cache
-  // so we don't hit the rpc on every request
-  private resolveCache: Record<string, { exp: number; result: Hash }> = {};
-  private client: ReturnType<typeof createPublicClient>;
-
-  constructor(private readonly env: Env) {
-    const rpc_url = env.alchemy_token
-      ? alchemy(env.chain.id as any, env.alchemy_token)
-      : undefined;
-    //@ts-ignore
-    this.client = createPublicClient({
-      transport: http(rpc_url),
-      chain: env.chain,
-    });
+  // We store resolution results per node so we don't hit the rpc
+  // on every request, entries are dropped when records change on L2
+  private resolveCache: ResolutionCache;
+  // One public client per served route, keyed by name suffix
+  private clients: Map<string, L2Client> = new Map();
+  private signer: ResponseSigner;
+
+  constructor(
+    private readonly env: Env,
+    createClient: L2ClientFactory = (route) =>
+      createL2Client(route, env.alchemy_token)
+  ) {
+    this.resolveCache = createResolutionCache(env.cache);
+    this.signer = createRotatingSigner(
+      env.signer,
+      env.next_signer,
+      env.signer_rotate_at
+    );
+    for (const route of env.routes) {
+      this.clients.set(route.suffix, createClient(route));
+    }
   }
 
+  // `nameExpiry` (unix seconds) caps how long the result is cached
   public async performL2ResolverCall(
+    route: L2Route,
     dnsName: Hash,
-    encodedFunctionCall: Hash
+    encodedFunctionCall: Hash,
+    nameExpiry?: bigint
   ): Promise<Hash> {
-    const cacheKey = this.getCacheKey(dnsName, encodedFunctionCall);
-    const cachedResult = this.resolveCache[cacheKey];
-    const now = new Date().getTime();
+    const { result } = await this.performL2ResolverCallWithCacheStatus(
+      route,
+      dnsName,
+      encodedFunctionCall,
+      nameExpiry
+    );
+    return result;
+  }
 
-    if (cachedResult && cachedResult.exp > now) {
-      return cachedResult.result;
+  // Same as `performL2ResolverCall`, also reporting whether the cache was hit
+  public async performL2ResolverCallWithCacheStatus(
+    route: L2Route,
+    dnsName: Hash,
+    encodedFunctionCall: Hash,
+    nameExpiry?: bigint
+  ): Promise<{ result: Hash; cache: CacheStatus }> {
+    const node = namehash(dnsDecodeName(dnsName));
+    const cacheKey = this.getCacheKey(route, encodedFunctionCall);
+    const cachedResult = await this.resolveCache.get(node, cacheKey);
+
+    if (cachedResult) {
+      cacheRequestsCounter.inc({ result: "hit" });
+      return { result: cachedResult, cache: "hit" };
     }
+    cacheRequestsCounter.inc({ result: "miss" });
 
-    const result = await this.client.readContract({
-      abi: RESOLVER_ABI,
-      functionName: "resolve",
-      args: [dnsName, encodedFunctionCall],
-      address: this.env.l2_resolver,
-    });
+    const result = await this.readL2(route, "resolve", () =>
+      this.getClient(route).readContract({
+        abi: RESOLVER_ABI,
+        functionName: "resolve",
+        args: [dnsName, encodedFunctionCall],
+        address: route.l2_resolver,
+      })
+    );
 
-    this.resolveCache[cacheKey] = {
-      exp: now + CACHE_EXPIRY_TIME,
+    await this.resolveCache.set(
+      node,
+      cacheKey,
       result,
-    };
+      this.getCacheTtl(encodedFunctionCall, nameExpiry)
+    );
 
-    return result;
+    return { result, cache: "miss" };
+  }
+
+  // Expiry timestamp of a name on L2, zero for revoked
+  // or names which were never registered
+  public async getNameExpiry(route: L2Route, node: Hash): Promise<bigint> {
+    const cachedExpiry = await this.resolveCache.get(node, EXPIRY_CACHE_KEY);
+    if (cachedExpiry) {
+      return hexToBigInt(cachedExpiry);
+    }
+
+    const expiry = await this.readL2(route, "expiries", () =>
+      this.getClient(route).readContract({
+        abi: REGISTRY_ABI,
+        functionName: "expiries",
+        args: [node],
+        address: route.l2_resolver,
+      })
+    );
+
+    await this.resolveCache.set(
+      node,
+      EXPIRY_CACHE_KEY,
+      toHex(expiry),
+      this.env.cache.ttl.default
+    );
+
+    return expiry;
   }
 
+  // Responses about an active name are not valid past `nameExpiry` (unix seconds)
   public async signedResolverResponse(
     sender: Address,
     originalData: Hash,
-    result: Hash
+    result: Hash,
+    nameExpiry?: bigint
   ) {
-    const ttl = 1000;
-    const validUntil = Math.floor(Date.now() / 1000 + ttl);
+    const responseExpiry = Math.floor(Date.now() / 1000 + this.env.response_ttl);
+    const validUntil =
+      nameExpiry === undefined
+        ? responseExpiry
+        : Math.min(responseExpiry, Number(nameExpiry));
 
     // Specific to `makeSignatureHash()` defined in SignatureVerifier contract
     const messageHash = keccak256(
@@ -81,10 +180,8 @@ export class Web3Client {
         ]
       )
     );
-    const sig = await sign({
-      hash: messageHash,
-      privateKey: this.env.signer_wallet_key as Hash,
-    });
+    const endSigning = signingDuration.startTimer();
+    const sig = await this.signer.signHash(messageHash).finally(endSigning);
 
     // An ABI encoded tuple of `(bytes result, uint64 expires, bytes sig)`, where
     // `result` is the data to return to the caller and `sig` is the (r,s,v) encoded message signature.
@@ -95,13 +192,110 @@ export class Web3Client {
         { name: "expires", type: "uint64" },
         { name: "sig", type: "bytes" },
       ],
-      [result, BigInt(validUntil), serializeSignature(sig)]
+      [result, BigInt(validUntil), sig]
     );
     return encodedResponse;
   }
 
-  // Create more optimal cache key mechanism
-  private getCacheKey = (dnsName: Hash, functionCall: Hash) => {
-    return `${keccak256(dnsName)}-${keccak256(functionCall)}`;
+  // Drops cached results for a node whenever its records, owner
+  // or registration change on any of the served L2 registries
+  public watchRecordChanges(): () => void {
+    const unwatchers = this.env.routes.map((route) =>
+      this.getClient(route).watchEvent({
+        address: route.l2_resolver,
+        events: RECORD_CHANGE_EVENTS,
+        onLogs: async (logs) => {
+          const nodes = new Set(logs.map((log) => log.args.node));
+          for (const node of nodes) {
+            if (node) {
+              await this.resolveCache.invalidate(node);
+            }
+          }
+        },
+        onError: (err) => {
+          logger.error("Failed to watch record changes", {
+            chain_id: route.chain.id,
+            error: err,
+          });
+        },
+      })
+    );
+
+    return () => unwatchers.forEach((unwatch) => unwatch());
+  }
+
+  // A revert means the L2 resolver doesn't support the requested call,
+  // anything else is a failure of the rpc itself
+  private async readL2<T>(
+    route: L2Route,
+    method: string,
+    read: () => Promise<T>
+  ): Promise<T> {
+    const start = performance.now();
+    const observe = (status: string) => {
+      const duration = performance.now() - start;
+      rpcDuration.observe(
+        { chain_id: route.chain.id, method, status },
+        duration / 1000
+      );
+      logger.info("L2 rpc call", {
+        chain_id: route.chain.id,
+        method,
+        status,
+        duration_ms: Math.round(duration),
+      });
+    };
+
+    try {
+      const result = await read();
+      observe("ok");
+      return result;
+    } catch (err) {
+      const reverted =
+        err instanceof BaseError &&
+        err.walk((e) => e instanceof ContractFunctionRevertedError);
+      observe(reverted ? "reverted" : "error");
+
+      if (reverted) {
+        throw new UnsupportedFunctionError(
+          `call reverted on chain ${route.chain.id}`
+        );
+      }
+      throw new UpstreamRpcError(route.chain.id, err);
+    }
+  }
+
+  private getClient(route: L2Route): L2Client {
+    const client = this.clients.get(route.suffix);
+    if (!client) {
+      throw new Error(`No L2 client configured for ${route.suffix}`);
+    }
+    return client;
+  }
+
+  // Reverse nodes are read from every route, results are kept per route
+  private getCacheKey = (route: L2Route, functionCall: Hash) => {
+    return keccak256(concat([stringToHex(route.suffix), functionCall]));
+  };
+
+  // Cached results never outlive the name they belong to
+  private getCacheTtl = (functionCall: Hash, nameExpiry?: bigint): number => {
+    const ttl = this.getRecordTtl(functionCall);
+    return nameExpiry === undefined
+      ? ttl
+      : Math.min(ttl, Number(nameExpiry) * 1000 - Date.now());
+  };
+
+  private getRecordTtl = (functionCall: Hash): number => {
+    const { ttl } = this.env.cache;
+    try {
+      const { functionName } = decodeFunctionData({
+        abi: RESOLVER_ABI,
+        data: functionCall,
+      });
+      return ttl[functionName as ResolverRecordType] ?? ttl.default;
+    } catch {
+      return ttl.default;
+    }
   };
 }
@@ -1,30 +1,142 @@
-import { type Address, type Chain } from "viem";
+import { isAddress, type Address, type Hash } from "viem";
 import { getChainById } from "./ccip-read/chains";
+import { loadRoutesConfig, type L2Route } from "./ccip-read/routes";
+import type { TokenBucket } from "./middleware/rate-limit-store";
+import type { ResolverRecordType } from "./ccip-read/types";
 import dotenv from "dotenv";
 dotenv.config();
 
+export interface CacheEnv {
+  backend: "memory" | "file";
+  max_entries: number;
+  file_path: string;
+  // ttl in milliseconds per resolver record type
+  ttl: Record<ResolverRecordType, number>;
+}
+
+export interface ProtectionEnv {
+  // undefined when the limit is disabled
+  ip_limit?: TokenBucket;
+  sender_limit?: TokenBucket;
+  max_data_bytes: number;
+  // empty list allows every sender
+  allowed_senders: Address[];
+  // read client ip from X-Forwarded-For when running behind a proxy
+  trust_proxy: boolean;
+}
+
+export type SignerEnv =
+  | { type: "local"; private_key: Hash }
+  | { type: "keystore"; keystore_path: string; password: string }
+  | { type: "remote"; url: string; auth_token?: string };
+
 export interface Env {
   alchemy_token: string | undefined;
-  signer_wallet_key: string;
-  l2_resolver: Address;
-  chain: Chain;
+  signer: SignerEnv;
+  next_signer?: SignerEnv;
+  // unix timestamp (seconds) from which the next signer is used
+  signer_rotate_at?: number;
+  // validity of signed responses in seconds
+  response_ttl: number;
+  routes: L2Route[];
   app_port: number
+  cache: CacheEnv;
+  protection: ProtectionEnv;
+  // JSON file with record redaction rules, reloaded on change
+  policy_path?: string;
+  // bearer token for the debug endpoints, disabled when not set
+  admin_token?: string;
+  // indexer REST api serving primary names for reverse resolution
+  indexer_url?: string;
 }
 
-export const getEnvironment = (): Env => {
-  const alchemy_token = process.env.ALCHEMY_TOKEN;
-  const signer_wallet_key = process.env.SIGNER_WALLET_KEY;
-  const l2_resolver = process.env.L2_RESOLVER as Address;
-  const chain_id = process.env.CHAIN_ID;
-  const app_port =  Number(process.env.PORT || 3000)
+// 5 minute cache per request
+const DEFAULT_CACHE_TTL_SECONDS = 5 * 60;
+const DEFAULT_CACHE_MAX_ENTRIES = 10_000;
+const DEFAULT_CACHE_FILE_PATH = ".cache/resolve-cache.json";
+const DEFAULT_RESPONSE_TTL_SECONDS = 1000;
+const DEFAULT_MAX_DATA_BYTES = 4096;
 
-  if (!app_port) {
-    throw new Error("APP_PORT environment variable is required");
+const parseSeconds = (name: string, fallback: number): number => {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
   }
 
-  if (!signer_wallet_key) {
-    throw new Error("SIGNER_WALLET_KEY environment variable is required");
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new Error(`${name} must be a positive number of seconds`);
+  }
+  return seconds;
+};
+
+// Reads signer configuration, `prefix` is used for the next signer
+// e.g NEXT_SIGNER_TYPE, NEXT_SIGNER_WALLET_KEY
+const getSignerEnvironment = (prefix: string): SignerEnv | undefined => {
+  const type = process.env[`${prefix}SIGNER_TYPE`] || "local";
+
+  if (type === "local") {
+    const private_key = process.env[`${prefix}SIGNER_WALLET_KEY`];
+    return private_key ? { type, private_key: private_key as Hash } : undefined;
+  }
+
+  if (type === "keystore") {
+    const keystore_path = process.env[`${prefix}SIGNER_KEYSTORE_PATH`];
+    const password = process.env[`${prefix}SIGNER_KEYSTORE_PASSWORD`];
+    if (!keystore_path || password === undefined) {
+      throw new Error(
+        `${prefix}SIGNER_KEYSTORE_PATH and ${prefix}SIGNER_KEYSTORE_PASSWORD environment variables are required`
+      );
+    }
+    return { type, keystore_path, password };
+  }
+
+  if (type === "remote") {
+    const url = process.env[`${prefix}SIGNER_REMOTE_URL`];
+    if (!url) {
+      throw new Error(`${prefix}SIGNER_REMOTE_URL environment variable is required`);
+    }
+    return { type, url, auth_token: process.env[`${prefix}SIGNER_REMOTE_TOKEN`] };
+  }
+
+  throw new Error(`${prefix}SIGNER_TYPE must be one of [local, keystore, remote]`);
+};
+
+const getCacheEnvironment = (): CacheEnv => {
+  const backend = process.env.CACHE_BACKEND || "memory";
+  const max_entries = Number(
+    process.env.CACHE_MAX_ENTRIES || DEFAULT_CACHE_MAX_ENTRIES
+  );
+
+  if (backend !== "memory" && backend !== "file") {
+    throw new Error("CACHE_BACKEND must be one of [memory, file]");
+  }
+
+  if (!Number.isInteger(max_entries) || max_entries <= 0) {
+    throw new Error("CACHE_MAX_ENTRIES must be a positive integer");
   }
+
+  const default_ttl = parseSeconds("CACHE_TTL", DEFAULT_CACHE_TTL_SECONDS);
+
+  return {
+    backend,
+    max_entries,
+    file_path: process.env.CACHE_FILE_PATH || DEFAULT_CACHE_FILE_PATH,
+    ttl: {
+      addr: parseSeconds("CACHE_TTL_ADDR", default_ttl) * 1000,
+      text: parseSeconds("CACHE_TTL_TEXT", default_ttl) * 1000,
+      contenthash: parseSeconds("CACHE_TTL_CONTENTHASH", default_ttl) * 1000,
+      ABI: parseSeconds("CACHE_TTL_ABI", default_ttl) * 1000,
+      default: default_ttl * 1000,
+    },
+  };
+};
+
+// Single L2 registry serving every name, used when no routes config is provided
+const getDefaultRoute = (): L2Route => {
+  const l2_resolver = process.env.L2_RESOLVER as Address;
+  const chain_id = process.env.CHAIN_ID;
+
   if (!l2_resolver) {
     throw new Error("L2_RESOLVER environment variable is required");
   }
@@ -47,10 +159,104 @@ export const getEnvironment = (): Env => {
   }
 
   return {
-    alchemy_token: alchemy_token,
-    signer_wallet_key,
-    l2_resolver,
+    suffix: "",
     chain: current_chain,
-    app_port: app_port
+    l2_resolver,
+  };
+};
+
+const parseNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name] || fallback);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a positive number`);
+  }
+  return value;
+};
+
+// Token bucket for `prefix`, disabled when capacity is 0
+const getTokenBucket = (
+  prefix: string,
+  capacity: number,
+  refill_rate: number
+): TokenBucket | undefined => {
+  const bucket = {
+    capacity: parseNumber(`${prefix}_CAPACITY`, capacity),
+    refill_rate: parseNumber(`${prefix}_REFILL`, refill_rate),
+  };
+
+  if (bucket.capacity === 0) {
+    return undefined;
+  }
+
+  if (bucket.refill_rate === 0) {
+    throw new Error(`${prefix}_REFILL must be greater than 0`);
+  }
+  return bucket;
+};
+
+const getProtectionEnvironment = (): ProtectionEnv => {
+  const allowed_senders = (process.env.ALLOWED_SENDERS || "")
+    .split(",")
+    .map((sender) => sender.trim())
+    .filter((sender) => sender.length > 0);
+
+  const invalid = allowed_senders.find((sender) => !isAddress(sender));
+  if (invalid) {
+    throw new Error(`ALLOWED_SENDERS contains invalid address: ${invalid}`);
+  }
+
+  return {
+    ip_limit: getTokenBucket("RATE_LIMIT_IP", 60, 1),
+    sender_limit: getTokenBucket("RATE_LIMIT_SENDER", 0, 0),
+    max_data_bytes: parseNumber("MAX_DATA_BYTES", DEFAULT_MAX_DATA_BYTES),
+    allowed_senders: allowed_senders as Address[],
+    trust_proxy: process.env.TRUST_PROXY === "true",
+  };
+};
+
+export const getEnvironment = (): Env => {
+  const alchemy_token = process.env.ALCHEMY_TOKEN;
+  const signer = getSignerEnvironment("");
+  const next_signer = getSignerEnvironment("NEXT_");
+  const signer_rotate_at = process.env.SIGNER_ROTATE_AT;
+  const response_ttl = parseSeconds("RESPONSE_TTL", DEFAULT_RESPONSE_TTL_SECONDS);
+  const routes_config = process.env.ROUTES_CONFIG;
+  const app_port =  Number(process.env.PORT || 3000)
+
+  if (!app_port) {
+    throw new Error("APP_PORT environment variable is required");
+  }
+
+  if (!signer) {
+    throw new Error("SIGNER_WALLET_KEY environment variable is required");
+  }
+
+  if (signer_rotate_at && !next_signer) {
+    throw new Error("SIGNER_ROTATE_AT requires a NEXT_SIGNER to be configured");
+  }
+
+  if (next_signer && !signer_rotate_at) {
+    throw new Error("NEXT_SIGNER requires SIGNER_ROTATE_AT to be configured");
+  }
+
+  if (signer_rotate_at && !Number.isInteger(Number(signer_rotate_at))) {
+    throw new Error("SIGNER_ROTATE_AT must be a unix timestamp in seconds");
+  }
+
+  return {
+    alchemy_token: alchemy_token,
+    signer,
+    next_signer,
+    signer_rotate_at: signer_rotate_at ? Number(signer_rotate_at) : undefined,
+    response_ttl,
+    routes: routes_config
+      ? loadRoutesConfig(routes_config)
+      : [getDefaultRoute()],
+    app_port: app_port,
+    cache: getCacheEnvironment(),
+    protection: getProtectionEnvironment(),
+    policy_path: process.env.POLICY_CONFIG || undefined,
+    admin_token: process.env.ADMIN_TOKEN || undefined,
+    indexer_url: process.env.INDEXER_URL || undefined,
   };
 };
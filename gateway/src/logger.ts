@@ -0,0 +1,67 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+type LogFields = Record<string, unknown>;
+
+interface RequestContext {
+  request_id: string;
+}
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+const minLevel = LOG_LEVELS.indexOf(
+  (process.env.LOG_LEVEL as LogLevel) || "info"
+);
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Runs `fn` with a request id attached, every log line written
+// while handling the request will carry the same id
+export const withRequestContext = <T>(
+  context: RequestContext,
+  fn: () => T
+): T => {
+  return requestContext.run(context, fn);
+};
+
+const serializeError = (err: unknown) => {
+  if (err instanceof Error) {
+    return { name: err.name, message: err.message, stack: err.stack };
+  }
+  return err;
+};
+
+const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+  if (LOG_LEVELS.indexOf(level) < minLevel) {
+    return;
+  }
+
+  const entry: LogFields = {
+    level,
+    time: new Date().toISOString(),
+    message,
+    ...requestContext.getStore(),
+    ...fields,
+  };
+
+  if (entry.error) {
+    entry.error = serializeError(entry.error);
+  }
+
+  const line = JSON.stringify(entry, (_, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+
+  if (level === "error" || level === "warn") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+};
+
+// Structured JSON logger
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) => write("error", message, fields),
+};
@@ -0,0 +1,55 @@
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from "prom-client";
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+// Resolution requests by resolver function (addr, text, contenthash, ABI..)
+export const requestsCounter = new Counter({
+  name: "gateway_resolve_requests_total",
+  help: "CCIP-Read resolution requests by resolver function and response status",
+  labelNames: ["function", "status"] as const,
+  registers: [metricsRegistry],
+});
+
+export const cacheRequestsCounter = new Counter({
+  name: "gateway_cache_requests_total",
+  help: "Resolution cache lookups by result",
+  labelNames: ["result"] as const,
+  registers: [metricsRegistry],
+});
+
+new Gauge({
+  name: "gateway_cache_hit_ratio",
+  help: "Ratio of resolution cache hits to all cache lookups",
+  registers: [metricsRegistry],
+  async collect() {
+    const { values } = await cacheRequestsCounter.get();
+    const count = (result: string) =>
+      values.find((v) => v.labels.result === result)?.value || 0;
+
+    const hits = count("hit");
+    const total = hits + count("miss");
+    this.set(total === 0 ? 0 : hits / total);
+  },
+});
+
+export const rpcDuration = new Histogram({
+  name: "gateway_rpc_duration_seconds",
+  help: "Latency of L2 rpc calls",
+  labelNames: ["chain_id", "method", "status"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry],
+});
+
+export const signingDuration = new Histogram({
+  name: "gateway_signing_duration_seconds",
+  help: "Latency of signing resolver responses",
+  buckets: [0.001, 0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1],
+  registers: [metricsRegistry],
+});
@@ -0,0 +1,89 @@
+export interface TokenBucket {
+  // maximum number of tokens, requests allowed in a burst
+  capacity: number;
+  // tokens added back per second
+  refill_rate: number;
+}
+
+export interface ConsumeResult {
+  allowed: boolean;
+  // seconds until the next token is available
+  retry_after: number;
+}
+
+// Storage for token buckets, kept behind an interface so buckets
+// can be shared between gateway instances (e.g Redis)
+export interface RateLimitStore {
+  consume(key: string, bucket: TokenBucket): Promise<ConsumeResult>;
+}
+
+interface BucketState extends TokenBucket {
+  tokens: number;
+  updated: number;
+}
+
+// Hard cap on stored buckets, the least recently used one is dropped
+const MAX_BUCKETS = 100_000;
+// Refilled buckets checked per request, keeps the work per request constant
+const SWEEP_BATCH = 10;
+
+const isRefilled = (state: BucketState, now: number) =>
+  state.tokens + ((now - state.updated) / 1000) * state.refill_rate >=
+  state.capacity;
+
+// LRU of token buckets, Map keeps insertion order so the first
+// keys are always the least recently used ones
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, BucketState> = new Map();
+
+  constructor(
+    private readonly now: () => number = () => Date.now(),
+    private readonly maxBuckets = MAX_BUCKETS
+  ) {}
+
+  public async consume(key: string, bucket: TokenBucket): Promise<ConsumeResult> {
+    const now = this.now();
+    const state = this.buckets.get(key);
+    this.buckets.delete(key);
+
+    const elapsed = state ? (now - state.updated) / 1000 : 0;
+    const tokens = Math.min(
+      bucket.capacity,
+      state ? state.tokens + elapsed * bucket.refill_rate : bucket.capacity
+    );
+    const allowed = tokens >= 1;
+
+    this.buckets.set(key, {
+      ...bucket,
+      tokens: allowed ? tokens - 1 : tokens,
+      updated: now,
+    });
+    this.sweep(now);
+
+    return allowed
+      ? { allowed: true, retry_after: 0 }
+      : {
+          allowed: false,
+          retry_after: Math.ceil((1 - tokens) / bucket.refill_rate),
+        };
+  }
+
+  // Number of stored buckets
+  public get size(): number {
+    return this.buckets.size;
+  }
+
+  // Drops the least recently used buckets once refilled, they are equal
+  // to a bucket that was never used. Each bucket is judged with its own
+  // limits and the store never grows over `maxBuckets`
+  private sweep(now: number) {
+    let checked = 0;
+    for (const [key, state] of this.buckets) {
+      const overCapacity = this.buckets.size > this.maxBuckets;
+      if (!overCapacity && (checked++ >= SWEEP_BATCH || !isRefilled(state, now))) {
+        return;
+      }
+      this.buckets.delete(key);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { isAddress, isAddressEqual, type Address } from "viem";
+import type { ProtectionEnv } from "../env";
+import { logger } from "../logger";
+import type { RateLimitStore, TokenBucket } from "./rate-limit-store";
+
+export interface RequestGuardOptions {
+  config: ProtectionEnv;
+  store: RateLimitStore;
+  getClientIp: (c: Context) => string | undefined;
+}
+
+// Protects /resolve/:sender/:data from abuse, every request which gets
+// through ends up as an rpc call on cache miss. Checks are ordered from
+// the cheapest one: allowlisted sender, calldata size, rate limits
+export const requestGuard = ({
+  config,
+  store,
+  getClientIp,
+}: RequestGuardOptions): MiddlewareHandler => {
+  return async (c, next) => {
+    const sender = c.req.param("sender") || "";
+    const data = c.req.param("data") || "";
+
+    const { allowed_senders } = config;
+    if (allowed_senders.length > 0 && !isAllowedSender(allowed_senders, sender)) {
+      logger.warn("Rejected request from unknown sender", { sender });
+      return c.json({ message: `Sender ${sender} is not allowed` }, 403);
+    }
+
+    // hex encoded, two characters per byte
+    const dataSize = Math.ceil(data.replace(/^0x/, "").length / 2);
+    if (dataSize > config.max_data_bytes) {
+      return c.json(
+        { message: `Request data exceeds ${config.max_data_bytes} bytes` },
+        413
+      );
+    }
+
+    const ip = getClientIp(c) || "unknown";
+    const limits: [string, TokenBucket | undefined][] = [
+      [`ip:${ip}`, config.ip_limit],
+      [`sender:${sender.toLowerCase()}`, config.sender_limit],
+    ];
+
+    for (const [key, bucket] of limits) {
+      if (!bucket) {
+        continue;
+      }
+
+      const { allowed, retry_after } = await store.consume(key, bucket);
+      if (!allowed) {
+        logger.warn("Rate limit exceeded", { key });
+        c.header("Retry-After", retry_after.toString());
+        return c.json({ message: "Too many requests" }, 429);
+      }
+    }
+
+    await next();
+  };
+};
+
+const isAllowedSender = (allowed: Address[], sender: string): boolean => {
+  return (
+    isAddress(sender) &&
+    allowed.some((address) => isAddressEqual(address, sender))
+  );
+};
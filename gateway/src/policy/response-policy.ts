@@ -0,0 +1,158 @@
+import { unwatchFile, watchFile } from "fs";
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionResult,
+  type Address,
+  type Hash,
+} from "viem";
+import { RESOLVER_ABI } from "../ccip-read/types";
+import { encodeEmptyResult } from "../ccip-read/results";
+import { logger } from "../logger";
+import {
+  EMPTY_POLICY,
+  ETH_COIN_TYPE,
+  loadPolicyRules,
+  type CoinTypeRule,
+  type PolicyRules,
+  type TextRule,
+} from "./rules";
+
+/**
+ * Redacts or overrides records before responses are signed. Rules are
+ * read from a JSON file which is watched for changes, every applied rule
+ * is logged so moderation actions can be audited.
+ * `onReload` is called after every reload attempt, with the error if
+ * the updated file was rejected
+ */
+export class ResponsePolicy {
+  private rules: PolicyRules = EMPTY_POLICY;
+
+  constructor(
+    private readonly path?: string,
+    watchInterval = 1000,
+    private readonly onReload?: (error?: unknown) => void
+  ) {
+    if (!path) {
+      return;
+    }
+
+    this.rules = loadPolicyRules(path);
+    watchFile(path, { interval: watchInterval }, () => this.reload()).unref();
+  }
+
+  // Keeps the previous rules if the updated file can't be loaded
+  public reload() {
+    if (!this.path) {
+      return;
+    }
+
+    try {
+      this.rules = loadPolicyRules(this.path);
+      logger.info("Policy rules reloaded", {
+        path: this.path,
+        texts: this.rules.texts.length,
+        coin_types: this.rules.coin_types.length,
+        names: this.rules.names.length,
+      });
+      this.onReload?.();
+    } catch (err) {
+      logger.error("Failed to reload policy rules", {
+        path: this.path,
+        error: err,
+      });
+      this.onReload?.(err);
+    }
+  }
+
+  public isNameBlocked(name: string): boolean {
+    return this.findNameRule(name) !== undefined;
+  }
+
+  // Returns the result which should be signed for `encodedCall` on `name`
+  public apply(name: string, encodedCall: Hash, result: Hash): Hash {
+    const nameRule = this.findNameRule(name);
+    if (nameRule) {
+      this.audit(name, "name", "redact", nameRule.reason);
+      return encodeEmptyResult(encodedCall);
+    }
+
+    const { functionName, args } = decodeFunctionData({
+      abi: RESOLVER_ABI,
+      data: encodedCall,
+    });
+
+    if (functionName === "text") {
+      const key = args[1];
+      const rule = this.findRule(this.rules.texts, name, (r) => r.key === key);
+      if (!rule) {
+        return result;
+      }
+
+      this.audit(name, `text:${key}`, rule.action, rule.reason);
+      return rule.action === "redact"
+        ? encodeEmptyResult(encodedCall)
+        : encodeFunctionResult({
+            abi: RESOLVER_ABI,
+            functionName: "text",
+            result: rule.value,
+          });
+    }
+
+    if (functionName === "addr") {
+      const coinType = args.length > 1 ? Number(args[1]) : ETH_COIN_TYPE;
+      const rule = this.findRule(
+        this.rules.coin_types,
+        name,
+        (r) => r.coin_type === coinType
+      );
+      if (!rule) {
+        return result;
+      }
+
+      this.audit(name, `addr:${coinType}`, rule.action, rule.reason);
+      if (rule.action === "redact") {
+        return encodeEmptyResult(encodedCall);
+      }
+      // `addr(bytes32, uint256)` returns bytes, `addr(bytes32)` an address
+      return args.length > 1
+        ? encodeAbiParameters([{ type: "bytes" }], [rule.value as Hash])
+        : encodeAbiParameters([{ type: "address" }], [rule.value as Address]);
+    }
+
+    return result;
+  }
+
+  public close() {
+    if (this.path) {
+      unwatchFile(this.path);
+    }
+  }
+
+  private findNameRule(name: string) {
+    const lowerName = name.toLowerCase();
+    return this.rules.names.find((rule) => rule.name === lowerName);
+  }
+
+  // Rules scoped to the name take precedence over global ones
+  private findRule<T extends TextRule | CoinTypeRule>(
+    rules: T[],
+    name: string,
+    matches: (rule: T) => boolean
+  ): T | undefined {
+    const lowerName = name.toLowerCase();
+    const candidates = rules.filter(
+      (rule) => matches(rule) && (!rule.name || rule.name === lowerName)
+    );
+    return candidates.find((rule) => rule.name) || candidates[0];
+  }
+
+  private audit(
+    name: string,
+    record: string,
+    action: string,
+    reason: string | undefined
+  ) {
+    logger.info("Policy rule applied", { name, record, action, reason });
+  }
+}
@@ -0,0 +1,71 @@
+import { readFileSync } from "fs";
+import { isAddress, isHex } from "viem";
+import { z } from "zod";
+
+const action = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("redact") }),
+  z.object({ action: z.literal("override"), value: z.string() }),
+]);
+
+// Coin type of the `addr(bytes32)` record (ENSIP-9)
+export const ETH_COIN_TYPE = 60;
+
+// Common fields of every rule, a rule without `name` applies to every name
+const scope = z.object({
+  name: z.string().toLowerCase().optional(),
+  // written to the audit log when the rule is applied
+  reason: z.string().optional(),
+});
+
+const policySchema = z.object({
+  texts: z
+    .array(z.intersection(scope.extend({ key: z.string() }), action))
+    .default([]),
+  coin_types: z
+    .array(
+      z
+        .intersection(
+          scope.extend({ coin_type: z.number().int().nonnegative() }),
+          action.refine(
+            (rule) => rule.action === "redact" || isHex(rule.value),
+            "coin type override value must be hex encoded"
+          )
+        )
+        // served by `addr(bytes32)` which returns an address
+        .refine(
+          (rule) =>
+            rule.action === "redact" ||
+            rule.coin_type !== ETH_COIN_TYPE ||
+            isAddress(rule.value),
+          `coin type ${ETH_COIN_TYPE} override value must be an address`
+        )
+    )
+    .default([]),
+  // every record of a listed name is served empty
+  names: z
+    .array(
+      z.object({
+        name: z.string().toLowerCase(),
+        reason: z.string().optional(),
+      })
+    )
+    .default([]),
+});
+
+export type PolicyRules = z.infer<typeof policySchema>;
+export type TextRule = PolicyRules["texts"][number];
+export type CoinTypeRule = PolicyRules["coin_types"][number];
+export type NameRule = PolicyRules["names"][number];
+
+export const EMPTY_POLICY: PolicyRules = { texts: [], coin_types: [], names: [] };
+
+export const loadPolicyRules = (path: string): PolicyRules => {
+  const rules = policySchema.safeParse(
+    JSON.parse(readFileSync(path, "utf-8"))
+  );
+
+  if (!rules.success) {
+    throw new Error(`Invalid policy config ${path}: ${rules.error.message}`);
+  }
+  return rules.data;
+};
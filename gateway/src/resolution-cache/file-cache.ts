@@ -0,0 +1,92 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type { Hash } from "viem";
+import { MemoryResolutionCache } from "./memory-cache";
+import type { CacheEntry } from "./types";
+import { logger } from "../logger";
+
+const FLUSH_DELAY = 1000;
+
+// LRU cache which is persisted as a JSON file, so the gateway
+// doesn't start with a cold cache after every restart
+export class FileResolutionCache extends MemoryResolutionCache {
+  private flushTimer: NodeJS.Timeout | undefined;
+
+  constructor(private readonly filePath: string, maxEntries: number) {
+    super(maxEntries);
+    this.load();
+  }
+
+  public async set(
+    node: Hash,
+    key: string,
+    result: Hash,
+    ttl: number
+  ): Promise<void> {
+    await super.set(node, key, result, ttl);
+    this.scheduleFlush();
+  }
+
+  public async invalidate(node: Hash): Promise<void> {
+    await super.invalidate(node);
+    this.scheduleFlush();
+  }
+
+  public flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    const now = Date.now();
+    const entries = [...this.entries.entries()].filter(
+      ([, entry]) => entry.exp > now
+    );
+
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(entries));
+  }
+
+  private load() {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const now = Date.now();
+      const entries = JSON.parse(
+        readFileSync(this.filePath, "utf-8")
+      ) as [string, CacheEntry][];
+
+      for (const [entryKey, entry] of entries) {
+        if (entry.exp > now) {
+          this.entries.set(entryKey, entry);
+        }
+      }
+      this.evict();
+    } catch (err) {
+      logger.error("Failed to load resolution cache", {
+        path: this.filePath,
+        error: err,
+      });
+    }
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      try {
+        this.flush();
+      } catch (err) {
+        logger.error("Failed to persist resolution cache", {
+          path: this.filePath,
+          error: err,
+        });
+      }
+    }, FLUSH_DELAY);
+    this.flushTimer.unref();
+  }
+}
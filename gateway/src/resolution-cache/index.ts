@@ -0,0 +1,13 @@
+import type { CacheEnv } from "../env";
+import { FileResolutionCache } from "./file-cache";
+import { MemoryResolutionCache } from "./memory-cache";
+import type { ResolutionCache } from "./types";
+
+export type { ResolutionCache } from "./types";
+
+export const createResolutionCache = (env: CacheEnv): ResolutionCache => {
+  if (env.backend === "file") {
+    return new FileResolutionCache(env.file_path, env.max_entries);
+  }
+  return new MemoryResolutionCache(env.max_entries);
+};
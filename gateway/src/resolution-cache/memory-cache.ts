@@ -0,0 +1,61 @@
+import type { Hash } from "viem";
+import type { CacheEntry, ResolutionCache } from "./types";
+
+// In-memory LRU cache, Map keeps insertion order so the
+// first key is always the least recently used one
+export class MemoryResolutionCache implements ResolutionCache {
+  protected entries: Map<string, CacheEntry> = new Map();
+
+  constructor(private readonly maxEntries: number) {}
+
+  public async get(node: Hash, key: string): Promise<Hash | undefined> {
+    const entryKey = this.getEntryKey(node, key);
+    const entry = this.entries.get(entryKey);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(entryKey);
+    if (entry.exp <= Date.now()) {
+      return undefined;
+    }
+
+    this.entries.set(entryKey, entry);
+    return entry.result;
+  }
+
+  public async set(
+    node: Hash,
+    key: string,
+    result: Hash,
+    ttl: number
+  ): Promise<void> {
+    const entryKey = this.getEntryKey(node, key);
+    this.entries.delete(entryKey);
+    this.entries.set(entryKey, { exp: Date.now() + ttl, result });
+    this.evict();
+  }
+
+  public async invalidate(node: Hash): Promise<void> {
+    const prefix = this.getEntryKey(node, "");
+    for (const entryKey of this.entries.keys()) {
+      if (entryKey.startsWith(prefix)) {
+        this.entries.delete(entryKey);
+      }
+    }
+  }
+
+  protected evict() {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        return;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  private getEntryKey = (node: Hash, key: string) => {
+    return `${node.toLowerCase()}:${key}`;
+  };
+}
@@ -0,0 +1,14 @@
+import type { Hash } from "viem";
+
+export interface CacheEntry {
+  exp: number;
+  result: Hash;
+}
+
+// Resolution results are grouped by node so every record
+// of a name can be dropped once it changes on L2
+export interface ResolutionCache {
+  get(node: Hash, key: string): Promise<Hash | undefined>;
+  set(node: Hash, key: string, result: Hash, ttl: number): Promise<void>;
+  invalidate(node: Hash): Promise<void>;
+}
@@ -0,0 +1,31 @@
+import type { SignerEnv } from "../env";
+import { KeystoreResponseSigner } from "./keystore-signer";
+import { LocalResponseSigner } from "./local-signer";
+import { RemoteResponseSigner } from "./remote-signer";
+import { RotatingResponseSigner } from "./rotating-signer";
+import type { ResponseSigner } from "./types";
+
+export type { ResponseSigner } from "./types";
+
+export const createResponseSigner = (env: SignerEnv): ResponseSigner => {
+  switch (env.type) {
+    case "local":
+      return new LocalResponseSigner(env.private_key);
+    case "keystore":
+      return new KeystoreResponseSigner(env.keystore_path, env.password);
+    case "remote":
+      return new RemoteResponseSigner(env.url, env.auth_token);
+  }
+};
+
+export const createRotatingSigner = (
+  active: SignerEnv,
+  next?: SignerEnv,
+  rotateAt?: number
+): ResponseSigner => {
+  return new RotatingResponseSigner(
+    createResponseSigner(active),
+    next ? createResponseSigner(next) : undefined,
+    rotateAt
+  );
+};
@@ -0,0 +1,90 @@
+import { createDecipheriv, pbkdf2Sync, scryptSync } from "crypto";
+import { readFileSync } from "fs";
+import { bytesToHex, concat, hexToBytes, keccak256, type Hash } from "viem";
+import { LocalResponseSigner } from "./local-signer";
+
+interface KeystoreCrypto {
+  cipher: string;
+  ciphertext: string;
+  cipherparams: { iv: string };
+  kdf: "scrypt" | "pbkdf2";
+  kdfparams: {
+    dklen: number;
+    salt: string;
+    n?: number;
+    r?: number;
+    p?: number;
+    c?: number;
+    prf?: string;
+  };
+  mac: string;
+}
+
+// Signer backed by an encrypted Web3 Secret Storage (v3) keystore file,
+// the key is decrypted once on startup and kept in memory
+export class KeystoreResponseSigner extends LocalResponseSigner {
+  constructor(keystorePath: string, password: string) {
+    super(decryptKeystore(readFileSync(keystorePath, "utf-8"), password));
+  }
+}
+
+export const decryptKeystore = (keystoreJson: string, password: string): Hash => {
+  const keystore = JSON.parse(keystoreJson);
+  const crypto: KeystoreCrypto = keystore.crypto || keystore.Crypto;
+
+  if (!crypto || crypto.cipher !== "aes-128-ctr") {
+    throw new Error("Unsupported keystore, expected aes-128-ctr cipher");
+  }
+
+  const derivedKey = deriveKey(crypto, password);
+  const ciphertext = hexToBytes(`0x${crypto.ciphertext}`);
+  const mac = keccak256(concat([derivedKey.subarray(16, 32), ciphertext]));
+
+  if (mac.slice(2).toLowerCase() !== crypto.mac.toLowerCase()) {
+    throw new Error("Invalid keystore password");
+  }
+
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.subarray(0, 16),
+    hexToBytes(`0x${crypto.cipherparams.iv}`)
+  );
+  const privateKey = Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]);
+
+  return bytesToHex(privateKey);
+};
+
+const deriveKey = (crypto: KeystoreCrypto, password: string): Buffer => {
+  const { kdfparams } = crypto;
+  const salt = hexToBytes(`0x${kdfparams.salt}`);
+
+  if (crypto.kdf === "scrypt") {
+    const N = kdfparams.n as number;
+    const r = kdfparams.r as number;
+    const p = kdfparams.p as number;
+    return scryptSync(password, salt, kdfparams.dklen, {
+      N,
+      r,
+      p,
+      maxmem: 256 * N * r,
+    });
+  }
+
+  if (crypto.kdf === "pbkdf2") {
+    if (kdfparams.prf !== "hmac-sha256") {
+      throw new Error(`Unsupported keystore prf: ${kdfparams.prf}`);
+    }
+    return pbkdf2Sync(
+      password,
+      salt,
+      kdfparams.c as number,
+      kdfparams.dklen,
+      "sha256"
+    );
+  }
+
+  throw new Error(`Unsupported keystore kdf: ${crypto.kdf}`);
+};
@@ -0,0 +1,20 @@
+import { serializeSignature, type Address, type Hash, type Hex } from "viem";
+import { privateKeyToAccount, sign } from "viem/accounts";
+import type { ResponseSigner } from "./types";
+
+export class LocalResponseSigner implements ResponseSigner {
+  private readonly address: Address;
+
+  constructor(private readonly privateKey: Hash) {
+    this.address = privateKeyToAccount(privateKey).address;
+  }
+
+  public async getAddress(): Promise<Address> {
+    return this.address;
+  }
+
+  public async signHash(hash: Hash): Promise<Hex> {
+    const sig = await sign({ hash, privateKey: this.privateKey });
+    return serializeSignature(sig);
+  }
+}
@@ -0,0 +1,33 @@
+import { Hono } from "hono";
+import { serve } from "@hono/node-server";
+import { isHex, type Hash } from "viem";
+import dotenv from "dotenv";
+import { LocalResponseSigner } from "./local-signer";
+dotenv.config();
+
+// Local stand-in for a remote signing service, speaks the same protocol
+// as RemoteResponseSigner and signs with STUB_SIGNER_KEY
+const privateKey = process.env.STUB_SIGNER_KEY as Hash;
+const port = Number(process.env.STUB_SIGNER_PORT || 3100);
+
+if (!privateKey) {
+  throw new Error("STUB_SIGNER_KEY environment variable is required");
+}
+
+const signer = new LocalResponseSigner(privateKey);
+const app = new Hono();
+
+app.get("/address", async (c) => {
+  return c.json({ address: await signer.getAddress() });
+});
+
+app.post("/sign", async (c) => {
+  const { hash } = await c.req.json<{ hash: string }>();
+  if (!isHex(hash) || hash.length !== 66) {
+    return c.json({ message: "Invalid hash" }, 400);
+  }
+  return c.json({ signature: await signer.signHash(hash) });
+});
+
+serve({ fetch: app.fetch, port });
+console.log(`Stub signer listening on port -> ${port}`);
@@ -0,0 +1,106 @@
+import {
+  getAddress,
+  isAddressEqual,
+  recoverAddress,
+  type Address,
+  type Hash,
+  type Hex,
+} from "viem";
+import type { ResponseSigner } from "./types";
+import { SignerUnavailableError } from "../ccip-read/errors";
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// Signer which delegates signing to a remote service (KMS, HSM proxy..)
+// speaking a minimal HTTP protocol:
+//
+//  GET  {url}/address          -> { "address": "0x..." }
+//  POST {url}/sign { "hash" }  -> { "signature": "0x..." }
+//
+// Every returned signature is recovered and checked against the address
+// so a misconfigured signer can't produce responses L1 would reject.
+// Requests are aborted after `timeout` ms, a hung, unreachable or
+// misbehaving signer fails the request with a 502 instead of a 500
+// or stalling every response
+export class RemoteResponseSigner implements ResponseSigner {
+  private address: Address | undefined;
+
+  constructor(
+    private readonly url: string,
+    private readonly authToken?: string,
+    private readonly timeout = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  public async getAddress(): Promise<Address> {
+    if (!this.address) {
+      const { address } = await this.request<{ address: Address }>("address");
+      this.address = await this.parseResponse("address", () => getAddress(address));
+    }
+    return this.address;
+  }
+
+  public async signHash(hash: Hash): Promise<Hex> {
+    const [address, { signature }] = await Promise.all([
+      this.getAddress(),
+      this.request<{ signature: Hex }>("sign", { hash }),
+    ]);
+
+    const recovered = await this.parseResponse("signature", () =>
+      recoverAddress({ hash, signature })
+    );
+    if (!isAddressEqual(recovered, address)) {
+      throw new SignerUnavailableError(
+        `signature from ${recovered}, expected ${address}`
+      );
+    }
+
+    return signature;
+  }
+
+  private async request<T>(path: string, body?: object): Promise<T> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.authToken) {
+      headers["Authorization"] = `Bearer ${this.authToken}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.url.replace(/\/$/, "")}/${path}`, {
+        method: body ? "POST" : "GET",
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (err) {
+      if (err instanceof Error && err.name === "TimeoutError") {
+        throw new SignerUnavailableError(
+          `no response within ${this.timeout}ms`,
+          err
+        );
+      }
+      throw new SignerUnavailableError(`${path} request failed`, err);
+    }
+
+    if (!response.ok) {
+      throw new SignerUnavailableError(
+        `${path} request failed with status ${response.status}`
+      );
+    }
+
+    try {
+      return (await response.json()) as T;
+    } catch (err) {
+      throw new SignerUnavailableError(`invalid ${path} response`, err);
+    }
+  }
+
+  private async parseResponse<T>(field: string, parse: () => T | Promise<T>) {
+    try {
+      return await parse();
+    } catch (err) {
+      throw new SignerUnavailableError(`invalid ${field} returned`, err);
+    }
+  }
+}
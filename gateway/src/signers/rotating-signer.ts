@@ -0,0 +1,33 @@
+import type { Address, Hash, Hex } from "viem";
+import type { ResponseSigner } from "./types";
+
+// Signs with the active signer until `rotateAt` (unix seconds) and with
+// the next signer afterwards. Rotation without downtime:
+//  1. L1Resolver.setSigners([active, next])
+//  2. configure the next signer together with a rotation time
+//  3. after rotation L1Resolver.setSigners([next])
+export class RotatingResponseSigner implements ResponseSigner {
+  constructor(
+    private readonly active: ResponseSigner,
+    private readonly next?: ResponseSigner,
+    private readonly rotateAt?: number
+  ) {}
+
+  public async getAddress(): Promise<Address> {
+    return this.current().getAddress();
+  }
+
+  public async signHash(hash: Hash): Promise<Hex> {
+    return this.current().signHash(hash);
+  }
+
+  private current(): ResponseSigner {
+    if (this.next && this.rotateAt !== undefined) {
+      const now = Math.floor(Date.now() / 1000);
+      if (now >= this.rotateAt) {
+        return this.next;
+      }
+    }
+    return this.active;
+  }
+}
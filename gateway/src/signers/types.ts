@@ -0,0 +1,8 @@
+import type { Address, Hash, Hex } from "viem";
+
+// Signs CCIP-Read responses, the signer address has to be
+// registered on the L1Resolver via `setSigners`
+export interface ResponseSigner {
+  getAddress(): Promise<Address>;
+  signHash(hash: Hash): Promise<Hex>;
+}
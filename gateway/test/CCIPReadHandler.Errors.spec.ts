@@ -0,0 +1,184 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BaseError,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  decodeAbiParameters,
+  encodeFunctionData,
+  encodeFunctionResult,
+  encodePacked,
+  isAddressEqual,
+  keccak256,
+  namehash,
+  recoverAddress,
+  type Hash,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { RESOLVER_ABI } from "../src/ccip-read/types";
+import {
+  createRequest,
+  createTestHandler,
+  dnsEncode,
+  now,
+  SENDER,
+  SIGNER_KEY,
+  type MockL2,
+} from "./utils";
+
+const ALICE = "alice.celo.eth";
+const TEXT_VALUE = "https://celo.org/avatar.png";
+
+const resolveCall = (name: string, data: Hash) =>
+  encodeFunctionData({
+    abi: RESOLVER_ABI,
+    functionName: "resolve",
+    args: [dnsEncode(name), data],
+  });
+
+const textCall = (name: string, key: string) =>
+  encodeFunctionData({
+    abi: RESOLVER_ABI,
+    functionName: "text",
+    args: [namehash(name), key],
+  });
+
+const textResult = (value: string) =>
+  encodeFunctionResult({
+    abi: RESOLVER_ABI,
+    functionName: "text",
+    result: value,
+  });
+
+const request = async (mock: MockL2, data: Hash) => {
+  const handler = createTestHandler(mock);
+  const response = await handler.handle(createRequest(SENDER, data));
+  return { status: response.status, body: (await response.json()) as any };
+};
+
+describe("CCIPReadHandler - Errors", () => {
+  it("Should resolve and sign a text record", async () => {
+    const { status, body } = await request(
+      { resolve: () => textResult(TEXT_VALUE) },
+      resolveCall(ALICE, textCall(ALICE, "avatar"))
+    );
+
+    assert.equal(status, 200);
+    const [result, expires] = decodeAbiParameters(
+      [{ type: "bytes" }, { type: "uint64" }, { type: "bytes" }],
+      body.data
+    );
+    assert.equal(result, textResult(TEXT_VALUE));
+    assert.ok(expires > now());
+  });
+
+  it("Should reject requests with invalid params", async () => {
+    const handler = createTestHandler({});
+    const response = await handler.handle(createRequest("0x1234", "0x"));
+
+    assert.equal(response.status, 400);
+  });
+
+  it("Should return 400 when outer call is not resolve", async () => {
+    const { status, body } = await request({}, textCall(ALICE, "avatar"));
+
+    assert.equal(status, 400);
+    assert.match(body.message, /Unsupported function: expected resolve/);
+  });
+
+  it("Should return 400 for unknown resolver selector", async () => {
+    const { status, body } = await request(
+      {},
+      resolveCall(ALICE, "0xdeadbeef0000000000000000000000000000000000000000")
+    );
+
+    assert.equal(status, 400);
+    assert.equal(body.message, "Unsupported function: selector 0xdeadbeef");
+  });
+
+  it("Should return 400 for nested resolve calls", async () => {
+    const { status } = await request(
+      {},
+      resolveCall(ALICE, resolveCall(ALICE, textCall(ALICE, "avatar")))
+    );
+
+    assert.equal(status, 400);
+  });
+
+  it("Should return 400 when L2 resolver reverts", async () => {
+    const error = new ContractFunctionExecutionError(
+      new ContractFunctionRevertedError({
+        abi: RESOLVER_ABI,
+        functionName: "resolve",
+      }) as BaseError,
+      { abi: RESOLVER_ABI, functionName: "resolve", args: ["0x", "0x"] }
+    );
+    const { status } = await request(
+      {
+        resolve: () => {
+          throw error;
+        },
+      },
+      resolveCall(ALICE, textCall(ALICE, "avatar"))
+    );
+
+    assert.equal(status, 400);
+  });
+
+  it("Should return 404 for names outside of served roots", async () => {
+    const name = "alice.base.eth";
+    const { status, body } = await request(
+      {},
+      resolveCall(name, textCall(name, "avatar"))
+    );
+
+    assert.equal(status, 404);
+    assert.equal(body.message, `Name ${name} is not served by this gateway`);
+  });
+
+  it("Should return 404 for revoked names", async () => {
+    const { status, body } = await request(
+      { expiry: 0n },
+      resolveCall(ALICE, textCall(ALICE, "avatar"))
+    );
+
+    assert.equal(status, 404);
+    assert.equal(
+      body.message,
+      `Name ${ALICE} is not registered or has been revoked`
+    );
+  });
+
+  it("Should return 502 when L2 rpc fails", async () => {
+    const { status, body } = await request(
+      { error: new Error("fetch failed") },
+      resolveCall(ALICE, textCall(ALICE, "avatar"))
+    );
+
+    assert.equal(status, 502);
+    assert.equal(body.message, "Failed to query L2 registry on chain 42220");
+  });
+
+  it("Should sign responses with the configured signer", async () => {
+    const data = resolveCall(ALICE, textCall(ALICE, "avatar"));
+    const { body } = await request(
+      { resolve: () => textResult(TEXT_VALUE) },
+      data
+    );
+
+    const [result, expires, signature] = decodeAbiParameters(
+      [{ type: "bytes" }, { type: "uint64" }, { type: "bytes" }],
+      body.data
+    );
+    const signer = await recoverAddress({
+      hash: keccak256(
+        encodePacked(
+          ["bytes", "address", "uint64", "bytes32", "bytes32"],
+          ["0x1900", SENDER, expires, keccak256(data), keccak256(result)]
+        )
+      ),
+      signature,
+    });
+    assert.ok(isAddressEqual(signer, privateKeyToAccount(SIGNER_KEY).address));
+  });
+});
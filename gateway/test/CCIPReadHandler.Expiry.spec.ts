@@ -0,0 +1,148 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decodeAbiParameters,
+  decodeFunctionResult,
+  encodeFunctionData,
+  encodeFunctionResult,
+  namehash,
+  type Hash,
+} from "viem";
+import { RESOLVER_ABI } from "../src/ccip-read/types";
+import { Web3Client } from "../src/ccip-read/web3-client";
+import {
+  createMockClient,
+  createRequest,
+  createTestEnv,
+  createTestHandler,
+  dnsEncode,
+  now,
+  SENDER,
+  type MockL2,
+} from "./utils";
+
+const ALICE = "alice.celo.eth";
+
+const resolveCall = (data: Hash) =>
+  encodeFunctionData({
+    abi: RESOLVER_ABI,
+    functionName: "resolve",
+    args: [dnsEncode(ALICE), data],
+  });
+
+const textCall = (key: string) =>
+  encodeFunctionData({
+    abi: RESOLVER_ABI,
+    functionName: "text",
+    args: [namehash(ALICE), key],
+  });
+
+const addrCall = encodeFunctionData({
+  abi: RESOLVER_ABI,
+  functionName: "addr",
+  args: [namehash(ALICE)],
+});
+
+const avatarResult = encodeFunctionResult({
+  abi: RESOLVER_ABI,
+  functionName: "text",
+  result: "ipfs://avatar",
+});
+
+// L2 double failing the test if records of the name are read
+const expiredRegistry: MockL2 = {
+  expiry: now() - 1n,
+  resolve: () => {
+    throw new Error("Records of expired names should not be read");
+  },
+};
+
+const resolve = async (mock: MockL2, data: Hash) => {
+  const handler = createTestHandler(mock);
+  const response = await handler.handle(createRequest(SENDER, data));
+  handler.close();
+
+  assert.equal(response.status, 200);
+  const body = (await response.json()) as any;
+  const [result, expires] = decodeAbiParameters(
+    [{ type: "bytes" }, { type: "uint64" }, { type: "bytes" }],
+    body.data
+  );
+  return { result, expires };
+};
+
+describe("CCIPReadHandler - Expiry", () => {
+  it("Should return empty records for expired names", async () => {
+    const text = await resolve(expiredRegistry, resolveCall(textCall("avatar")));
+    const addr = await resolve(expiredRegistry, resolveCall(addrCall));
+
+    assert.equal(
+      decodeFunctionResult({ abi: RESOLVER_ABI, functionName: "text", data: text.result }),
+      ""
+    );
+    assert.equal(
+      decodeFunctionResult({ abi: RESOLVER_ABI, functionName: "addr", data: addr.result }),
+      "0x0000000000000000000000000000000000000000"
+    );
+    assert.ok(text.expires > now());
+  });
+
+  it("Should return empty multicall results for expired names", async () => {
+    const multicall = encodeFunctionData({
+      abi: RESOLVER_ABI,
+      functionName: "multicall",
+      args: [[textCall("avatar"), textCall("url")]],
+    });
+
+    const { result } = await resolve(expiredRegistry, resolveCall(multicall));
+
+    const results = decodeFunctionResult({
+      abi: RESOLVER_ABI,
+      functionName: "multicall",
+      data: result,
+    });
+    assert.equal(results.length, 2);
+    for (const inner of results) {
+      assert.equal(
+        decodeFunctionResult({ abi: RESOLVER_ABI, functionName: "text", data: inner }),
+        ""
+      );
+    }
+  });
+
+  it("Should not sign responses valid past the name expiry", async () => {
+    const expiry = now() + 60n;
+
+    const { result, expires } = await resolve(
+      { expiry, resolve: () => avatarResult },
+      resolveCall(textCall("avatar"))
+    );
+
+    assert.equal(result, avatarResult);
+    assert.equal(expires, expiry);
+  });
+
+  it("Should not cache results past the name expiry", async () => {
+    const env = createTestEnv();
+    const route = env.routes[0]!;
+    const client = new Web3Client(env, () =>
+      createMockClient({ resolve: () => avatarResult })
+    );
+    const call = textCall("avatar");
+
+    const resolveText = (nameExpiry?: bigint) =>
+      client.performL2ResolverCallWithCacheStatus(
+        route,
+        dnsEncode(ALICE),
+        call,
+        nameExpiry
+      );
+
+    // name expires right away, result can't be cached
+    await resolveText(now());
+    assert.equal((await resolveText(now())).cache, "miss");
+
+    await resolveText(now() + 60n);
+    assert.equal((await resolveText(now() + 60n)).cache, "hit");
+  });
+});
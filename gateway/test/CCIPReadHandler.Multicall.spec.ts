@@ -0,0 +1,128 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decodeAbiParameters,
+  decodeFunctionData,
+  decodeFunctionResult,
+  encodeFunctionData,
+  encodeFunctionResult,
+  namehash,
+  type Hash,
+} from "viem";
+import { RESOLVER_ABI } from "../src/ccip-read/types";
+import {
+  createRequest,
+  createTestHandler,
+  dnsEncode,
+  SENDER,
+  type MockL2,
+} from "./utils";
+
+const ALICE = "alice.celo.eth";
+const ALICE_ADDRESS = "0x3333333333333333333333333333333333333333";
+
+const textCall = encodeFunctionData({
+  abi: RESOLVER_ABI,
+  functionName: "text",
+  args: [namehash(ALICE), "avatar"],
+});
+
+const addrCall = encodeFunctionData({
+  abi: RESOLVER_ABI,
+  functionName: "addr",
+  args: [namehash(ALICE)],
+});
+
+const multicallCall = (calls: Hash[]) =>
+  encodeFunctionData({
+    abi: RESOLVER_ABI,
+    functionName: "multicall",
+    args: [calls],
+  });
+
+const resolveCall = (data: Hash) =>
+  encodeFunctionData({
+    abi: RESOLVER_ABI,
+    functionName: "resolve",
+    args: [dnsEncode(ALICE), data],
+  });
+
+// L2 double answering each inner call with the record of alice
+const aliceRegistry: MockL2 = {
+  resolve: (data) => {
+    const { functionName } = decodeFunctionData({ abi: RESOLVER_ABI, data });
+    if (functionName === "text") {
+      return encodeFunctionResult({
+        abi: RESOLVER_ABI,
+        functionName: "text",
+        result: "ipfs://avatar",
+      });
+    }
+    if (functionName === "addr") {
+      return encodeFunctionResult({
+        abi: RESOLVER_ABI,
+        functionName: "addr",
+        args: [namehash(ALICE)],
+        result: ALICE_ADDRESS,
+      });
+    }
+    throw new Error(`Unexpected inner call ${functionName}`);
+  },
+};
+
+const resolve = async (data: Hash) => {
+  const handler = createTestHandler(aliceRegistry);
+  const response = await handler.handle(createRequest(SENDER, resolveCall(data)));
+  handler.close();
+  return response;
+};
+
+describe("CCIPReadHandler - Multicall", () => {
+  it("Should resolve every inner call of a multicall", async () => {
+    const response = await resolve(multicallCall([textCall, addrCall]));
+
+    assert.equal(response.status, 200);
+    const body = (await response.json()) as any;
+    const [result] = decodeAbiParameters(
+      [{ type: "bytes" }, { type: "uint64" }, { type: "bytes" }],
+      body.data
+    );
+    const [text, addr] = decodeFunctionResult({
+      abi: RESOLVER_ABI,
+      functionName: "multicall",
+      data: result,
+    });
+
+    assert.equal(
+      decodeFunctionResult({ abi: RESOLVER_ABI, functionName: "text", data: text! }),
+      "ipfs://avatar"
+    );
+    assert.equal(
+      decodeFunctionResult({
+        abi: RESOLVER_ABI,
+        functionName: "addr",
+        args: [namehash(ALICE)],
+        data: addr!,
+      }),
+      ALICE_ADDRESS
+    );
+  });
+
+  it("Should reject multicalls with an unsupported inner call", async () => {
+    const unknownCall: Hash = "0xdeadbeef";
+
+    const unknown = await resolve(multicallCall([textCall, unknownCall]));
+    const nested = await resolve(
+      multicallCall([textCall, multicallCall([addrCall])])
+    );
+
+    assert.equal(unknown.status, 400);
+    assert.deepEqual(await unknown.json(), {
+      message: "Unsupported function: selector 0xdeadbeef",
+    });
+    assert.equal(nested.status, 400);
+    assert.deepEqual(await nested.json(), {
+      message: "Unsupported function: nested multicall",
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type RequestListener } from "http";
+import type { AddressInfo } from "net";
+import {
+  decodeAbiParameters,
+  decodeFunctionData,
+  decodeFunctionResult,
+  encodeFunctionData,
+  encodeFunctionResult,
+  namehash,
+  type Address,
+  type Hash,
+} from "viem";
+import { base } from "viem/chains";
+import type { Env } from "../src/env";
+import { RESOLVER_ABI } from "../src/ccip-read/types";
+import { Web3Client } from "../src/ccip-read/web3-client";
+import { CCIPReadHandler } from "../src/ccip-read/handler";
+import { getReverseName, parseReverseName } from "../src/ccip-read/reverse";
+import {
+  createMockClient,
+  createRequest,
+  createTestEnv,
+  createTestHandler,
+  dnsEncode,
+  L2_RESOLVER,
+  SENDER,
+  type MockL2,
+} from "./utils";
+
+const ALICE = "alice.celo.eth";
+const ALICE_ADDRESS: Address = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const REVERSE_NAME = getReverseName(ALICE_ADDRESS);
+
+const reverseCall = (data: Hash) =>
+  encodeFunctionData({
+    abi: RESOLVER_ABI,
+    functionName: "resolve",
+    args: [dnsEncode(REVERSE_NAME), data],
+  });
+
+const nameCall = encodeFunctionData({
+  abi: RESOLVER_ABI,
+  functionName: "name",
+  args: [namehash(REVERSE_NAME)],
+});
+
+// L2 registry double holding a reverse record and the addr record of its name
+const reverseRegistry = (
+  primaryName: string,
+  forwardAddress: Address = ALICE_ADDRESS
+): MockL2 => ({
+  resolve: (data) => {
+    const { functionName } = decodeFunctionData({ abi: RESOLVER_ABI, data });
+    if (functionName === "name") {
+      return encodeFunctionResult({
+        abi: RESOLVER_ABI,
+        functionName: "name",
+        result: primaryName,
+      });
+    }
+    return encodeFunctionResult({
+      abi: RESOLVER_ABI,
+      functionName: "addr",
+      result: forwardAddress,
+    });
+  },
+});
+
+const handleReverse = async (
+  handler: CCIPReadHandler,
+  data: Hash = nameCall
+) => {
+  const response = await handler.handle(
+    createRequest(SENDER, reverseCall(data))
+  );
+  handler.close();
+  const body = (await response.json()) as any;
+  if (response.status !== 200) {
+    return { status: response.status, body, name: undefined };
+  }
+
+  const [result] = decodeAbiParameters(
+    [{ type: "bytes" }, { type: "uint64" }, { type: "bytes" }],
+    body.data
+  );
+  const name = decodeFunctionResult({
+    abi: RESOLVER_ABI,
+    functionName: "name",
+    data: result,
+  });
+  return { status: response.status, body, name };
+};
+
+const resolveReverse = (mock: MockL2, data?: Hash, env?: Env) =>
+  handleReverse(createTestHandler(mock, env), data);
+
+// Indexer double serving `GET /addresses/:address/primary-names`
+const withIndexer =
+  (
+    listener: RequestListener,
+    test: (url: string, paths: string[]) => Promise<void>
+  ) =>
+  async () => {
+    const paths: string[] = [];
+    const server = createServer((req, res) => {
+      paths.push(req.url!);
+      listener(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      await test(`http://127.0.0.1:${port}`, paths);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  };
+
+const primaryNames =
+  (rows: { chain: string; full_name: string }[]): RequestListener =>
+  (_req, res) => {
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ primary_names: rows }));
+  };
+
+describe("CCIPReadHandler - Reverse", () => {
+  it("Should parse addr.reverse names", () => {
+    assert.equal(parseReverseName(REVERSE_NAME), ALICE_ADDRESS);
+    assert.equal(parseReverseName(ALICE), null);
+    assert.equal(parseReverseName("1234.addr.reverse"), null);
+  });
+
+  it("Should resolve the primary name of an address", async () => {
+    const { status, name } = await resolveReverse(reverseRegistry(ALICE));
+
+    assert.equal(status, 200);
+    assert.equal(name, ALICE);
+  });
+
+  it("Should return an empty name when no reverse record is set", async () => {
+    const { status, name } = await resolveReverse(reverseRegistry(""));
+
+    assert.equal(status, 200);
+    assert.equal(name, "");
+  });
+
+  it("Should return an empty name when forward address does not match", async () => {
+    const { name } = await resolveReverse(
+      reverseRegistry(ALICE, "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC")
+    );
+
+    assert.equal(name, "");
+  });
+
+  it("Should return an empty name for expired primary names", async () => {
+    const { name } = await resolveReverse({
+      ...reverseRegistry(ALICE),
+      expiry: 0n,
+    });
+
+    assert.equal(name, "");
+  });
+
+  it("Should return an empty name for names outside of served roots", async () => {
+    const { name } = await resolveReverse(reverseRegistry("alice.base.eth"));
+
+    assert.equal(name, "");
+  });
+
+  it("Should return 400 for non name calls on reverse names", async () => {
+    const { status, body } = await resolveReverse(
+      reverseRegistry(ALICE),
+      encodeFunctionData({
+        abi: RESOLVER_ABI,
+        functionName: "text",
+        args: [namehash(REVERSE_NAME), "avatar"],
+      })
+    );
+
+    assert.equal(status, 400);
+    assert.equal(body.message, "Unsupported function: text on reverse name");
+  });
+
+  it(
+    "Should resolve a primary name set through the ENS reverse registrar",
+    // alice called `setName` on the ENS reverse registrar, the indexer
+    // stored it as the primary name of her address on chain "ethereum"
+    withIndexer(
+      primaryNames([
+        { chain: "celo", full_name: "bob.celo.eth" },
+        { chain: "ethereum", full_name: ALICE },
+      ]),
+      async (url, paths) => {
+        const { status, name } = await resolveReverse(
+          reverseRegistry(""),
+          undefined,
+          createTestEnv({ indexer_url: url })
+        );
+
+        assert.equal(status, 200);
+        assert.equal(name, ALICE);
+        assert.deepEqual(paths, [
+          `/addresses/${ALICE_ADDRESS.toLowerCase()}/primary-names`,
+        ]);
+      }
+    )
+  );
+
+  it(
+    "Should return an empty name when the indexer has no primary name",
+    withIndexer(primaryNames([]), async (url) => {
+      const { name } = await resolveReverse(
+        reverseRegistry(ALICE),
+        undefined,
+        createTestEnv({ indexer_url: url })
+      );
+
+      assert.equal(name, "");
+    })
+  );
+
+  it(
+    "Should return 502 when the indexer fails",
+    withIndexer(
+      (_req, res) => {
+        res.statusCode = 500;
+        res.end();
+      },
+      async (url) => {
+        const { status, body } = await resolveReverse(
+          reverseRegistry(ALICE),
+          undefined,
+          createTestEnv({ indexer_url: url })
+        );
+
+        assert.equal(status, 502);
+        assert.equal(
+          body.message,
+          "Failed to query primary names from the indexer"
+        );
+      }
+    )
+  );
+
+  it("Should read reverse records from the registry of every route", async () => {
+    const BASE_NAME = "alice.base.eth";
+    const env = createTestEnv({
+      routes: [
+        { suffix: "celo.eth", chain: base, l2_resolver: L2_RESOLVER },
+        { suffix: "base.eth", chain: base, l2_resolver: L2_RESOLVER },
+      ],
+    });
+    // the celo.eth registry has no reverse record, a base.eth
+    // name set on it would be ignored as it can't be verified there
+    const registries: Record<string, MockL2> = {
+      "celo.eth": reverseRegistry(""),
+      "base.eth": reverseRegistry(BASE_NAME),
+    };
+    const web3Client = new Web3Client(env, (route) =>
+      createMockClient(registries[route.suffix]!)
+    );
+
+    const { status, name } = await handleReverse(
+      new CCIPReadHandler(env, web3Client)
+    );
+
+    assert.equal(status, 200);
+    assert.equal(name, BASE_NAME);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decodeAbiParameters,
+  encodeAbiParameters,
+  encodeFunctionData,
+  encodeFunctionResult,
+  encodePacked,
+  keccak256,
+  namehash,
+  recoverAddress,
+  type Hash,
+} from "viem";
+import { privateKeyToAddress } from "viem/accounts";
+import { createApp } from "../src/app";
+import { CCIPReadHandler } from "../src/ccip-read/handler";
+import { RESOLVER_ABI } from "../src/ccip-read/types";
+import { Web3Client } from "../src/ccip-read/web3-client";
+import type { Env } from "../src/env";
+import {
+  createMockClient,
+  createTestEnv,
+  dnsEncode,
+  SENDER,
+  SIGNER_KEY,
+  type MockL2,
+} from "./utils";
+
+const ADMIN_TOKEN = "debug-token";
+const ALICE = "alice.celo.eth";
+
+const createDebugApp = (mock: MockL2, env: Env = createTestEnv()) => {
+  const web3Client = new Web3Client(env, () => createMockClient(mock));
+  const handler = new CCIPReadHandler(env, web3Client);
+  return { app: createApp(env, handler), handler };
+};
+
+const avatarRegistry: MockL2 = {
+  resolve: () =>
+    encodeFunctionResult({
+      abi: RESOLVER_ABI,
+      functionName: "text",
+      result: "ipfs://avatar",
+    }),
+};
+
+const debugResolve = (
+  app: ReturnType<typeof createApp>,
+  query: string,
+  token = ADMIN_TOKEN
+) =>
+  app.request(`/debug/resolve?${query}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+describe("Debug endpoint", () => {
+  it("Should be disabled without an admin token", async () => {
+    const { app, handler } = createDebugApp(avatarRegistry);
+
+    const response = await debugResolve(app, `name=${ALICE}&record=text:avatar`);
+    handler.close();
+
+    assert.equal(response.status, 404);
+  });
+
+  it("Should reject requests without a valid token", async () => {
+    const { app, handler } = createDebugApp(
+      avatarRegistry,
+      createTestEnv({ admin_token: ADMIN_TOKEN })
+    );
+
+    const response = await debugResolve(
+      app,
+      `name=${ALICE}&record=text:avatar`,
+      "wrong-token"
+    );
+    const unauthenticated = await app.request(
+      `/debug/resolve?name=${ALICE}&record=text:avatar`
+    );
+    handler.close();
+
+    assert.equal(response.status, 401);
+    assert.equal(unauthenticated.status, 401);
+  });
+
+  it("Should return every resolution step", async () => {
+    const { app, handler } = createDebugApp(
+      avatarRegistry,
+      createTestEnv({ admin_token: ADMIN_TOKEN })
+    );
+    const query = `name=${ALICE}&record=text:avatar&sender=${SENDER}`;
+
+    const first = (await (await debugResolve(app, query)).json()) as any;
+    const second = (await (await debugResolve(app, query)).json()) as any;
+    handler.close();
+
+    const calldata = encodeFunctionData({
+      abi: RESOLVER_ABI,
+      functionName: "text",
+      args: [namehash(ALICE), "avatar"],
+    });
+    const request = encodeFunctionData({
+      abi: RESOLVER_ABI,
+      functionName: "resolve",
+      args: [dnsEncode(ALICE), calldata],
+    });
+    assert.equal(first.dns_encoded_name, dnsEncode(ALICE));
+    assert.equal(first.calldata, calldata);
+    assert.equal(first.request, request);
+    assert.equal(first.raw_result, avatarRegistry.resolve!(calldata));
+    assert.equal(first.decoded, "ipfs://avatar");
+    assert.equal(first.cache, "miss");
+    assert.equal(second.cache, "hit");
+
+    const [result, expires, sig] = decodeAbiParameters(
+      [{ type: "bytes" }, { type: "uint64" }, { type: "bytes" }],
+      first.signed_response as Hash
+    );
+    const signer = await recoverAddress({
+      hash: keccak256(
+        encodePacked(
+          ["bytes", "address", "uint64", "bytes32", "bytes32"],
+          ["0x1900", SENDER, expires, keccak256(request), keccak256(result)]
+        )
+      ),
+      signature: sig,
+    });
+    assert.equal(result, first.result);
+    assert.equal(signer, privateKeyToAddress(SIGNER_KEY));
+  });
+
+  it("Should decode the result of overloaded functions", async () => {
+    const { app, handler } = createDebugApp(
+      {
+        // `addr(bytes32, uint256)` returns bytes, `addr(bytes32)` an address
+        resolve: () => encodeAbiParameters([{ type: "bytes" }], ["0x1234"]),
+      },
+      createTestEnv({ admin_token: ADMIN_TOKEN })
+    );
+
+    const response = await debugResolve(app, `name=${ALICE}&record=addr:0`);
+    handler.close();
+
+    assert.equal(response.status, 200);
+    assert.equal(((await response.json()) as any).decoded, "0x1234");
+  });
+
+  it("Should serialize uint256 values", async () => {
+    const { app, handler } = createDebugApp(
+      {
+        resolve: () =>
+          encodeFunctionResult({
+            abi: RESOLVER_ABI,
+            functionName: "ABI",
+            result: [1n, "0x1234"],
+          }),
+      },
+      createTestEnv({ admin_token: ADMIN_TOKEN })
+    );
+
+    const response = await debugResolve(app, `name=${ALICE}&record=abi:1`);
+    handler.close();
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(((await response.json()) as any).decoded, ["1", "0x1234"]);
+  });
+
+  it("Should reject invalid records", async () => {
+    const { app, handler } = createDebugApp(
+      avatarRegistry,
+      createTestEnv({ admin_token: ADMIN_TOKEN })
+    );
+
+    const unknown = await debugResolve(app, `name=${ALICE}&record=avatar`);
+    const missingKey = await debugResolve(app, `name=${ALICE}&record=text:`);
+    const notServed = await debugResolve(app, `name=alice.eth&record=addr`);
+    handler.close();
+
+    assert.equal(unknown.status, 400);
+    assert.deepEqual(await unknown.json(), { message: "Invalid record: avatar" });
+    assert.equal(missingKey.status, 400);
+    assert.equal(notServed.status, 404);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Hono } from "hono";
+import type { ProtectionEnv } from "../src/env";
+import { requestGuard } from "../src/middleware/request-guard";
+import { MemoryRateLimitStore } from "../src/middleware/rate-limit-store";
+import { SENDER } from "./utils";
+
+const OTHER_SENDER = "0x3333333333333333333333333333333333333333";
+const DATA = "0x9061b923";
+
+const createGuardedApp = (
+  config: Partial<ProtectionEnv>,
+  store = new MemoryRateLimitStore()
+) => {
+  const app = new Hono();
+  app.use(
+    "/resolve/:sender/:data",
+    requestGuard({
+      config: {
+        max_data_bytes: 4096,
+        allowed_senders: [],
+        trust_proxy: false,
+        ...config,
+      },
+      store,
+      getClientIp: (c) => c.req.header("X-Forwarded-For"),
+    })
+  );
+  app.get("/resolve/:sender/:data", (c) => c.json({ data: "0x" }));
+  return app;
+};
+
+const resolve = (app: Hono, sender: string, data = DATA, ip = "10.0.0.1") => {
+  return app.request(`/resolve/${sender}/${data}`, {
+    headers: { "X-Forwarded-For": ip },
+  });
+};
+
+describe("RequestGuard", () => {
+  it("Should allow requests when no limits are configured", async () => {
+    const app = createGuardedApp({});
+
+    for (let i = 0; i < 10; i++) {
+      assert.equal((await resolve(app, SENDER)).status, 200);
+    }
+  });
+
+  it("Should reject senders which are not allowlisted", async () => {
+    const app = createGuardedApp({ allowed_senders: [SENDER] });
+
+    assert.equal((await resolve(app, SENDER)).status, 200);
+
+    const response = await resolve(app, OTHER_SENDER);
+    assert.equal(response.status, 403);
+    assert.deepEqual(await response.json(), {
+      message: `Sender ${OTHER_SENDER} is not allowed`,
+    });
+  });
+
+  it("Should reject data over the size limit", async () => {
+    const app = createGuardedApp({ max_data_bytes: 4 });
+
+    assert.equal((await resolve(app, SENDER, "0x01020304")).status, 200);
+    assert.equal((await resolve(app, SENDER, "0x0102030405")).status, 413);
+  });
+
+  it("Should rate limit per ip", async () => {
+    const app = createGuardedApp({
+      ip_limit: { capacity: 2, refill_rate: 1 },
+    });
+
+    assert.equal((await resolve(app, SENDER)).status, 200);
+    assert.equal((await resolve(app, SENDER)).status, 200);
+
+    const limited = await resolve(app, SENDER);
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get("Retry-After"), "1");
+    assert.deepEqual(await limited.json(), { message: "Too many requests" });
+
+    // other clients keep their own bucket
+    assert.equal((await resolve(app, SENDER, DATA, "10.0.0.2")).status, 200);
+  });
+
+  it("Should rate limit per sender across ips", async () => {
+    const app = createGuardedApp({
+      sender_limit: { capacity: 1, refill_rate: 1 },
+    });
+
+    assert.equal((await resolve(app, SENDER, DATA, "10.0.0.1")).status, 200);
+    assert.equal((await resolve(app, SENDER, DATA, "10.0.0.2")).status, 429);
+    assert.equal((await resolve(app, OTHER_SENDER)).status, 200);
+  });
+
+  it("Should refill tokens over time", async () => {
+    let now = 0;
+    const app = createGuardedApp(
+      { ip_limit: { capacity: 1, refill_rate: 0.5 } },
+      new MemoryRateLimitStore(() => now)
+    );
+
+    assert.equal((await resolve(app, SENDER)).status, 200);
+
+    const limited = await resolve(app, SENDER);
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get("Retry-After"), "2");
+
+    now += 2000;
+    assert.equal((await resolve(app, SENDER)).status, 200);
+  });
+
+  it("Should cap the number of stored buckets", async () => {
+    const store = new MemoryRateLimitStore(() => 0, 2);
+    const bucket = { capacity: 1, refill_rate: 0.001 };
+
+    await store.consume("ip:10.0.0.1", bucket);
+    await store.consume("ip:10.0.0.2", bucket);
+    await store.consume("ip:10.0.0.3", bucket);
+
+    assert.equal(store.size, 2);
+    // least recently used bucket was dropped
+    assert.equal((await store.consume("ip:10.0.0.3", bucket)).allowed, false);
+    assert.equal((await store.consume("ip:10.0.0.1", bucket)).allowed, true);
+  });
+
+  it("Should sweep refilled buckets with their own limits", async () => {
+    let now = 0;
+    const store = new MemoryRateLimitStore(() => now);
+    const ipBucket = { capacity: 1, refill_rate: 1 };
+    const senderBucket = { capacity: 1, refill_rate: 0.001 };
+
+    await store.consume("ip:10.0.0.1", ipBucket);
+    await store.consume(`sender:${SENDER}`, senderBucket);
+    now += 1000;
+    await store.consume("ip:10.0.0.2", ipBucket);
+
+    // only the ip bucket is refilled after a second
+    assert.equal(store.size, 2);
+    assert.equal((await store.consume(`sender:${SENDER}`, senderBucket)).allowed, false);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { encodeFunctionData, encodeFunctionResult, namehash } from "viem";
+import { FileResolutionCache } from "../src/resolution-cache/file-cache";
+import { MemoryResolutionCache } from "../src/resolution-cache/memory-cache";
+import { RESOLVER_ABI } from "../src/ccip-read/types";
+import { Web3Client, type L2Client } from "../src/ccip-read/web3-client";
+import { createMockClient, createTestEnv, dnsEncode } from "./utils";
+
+const ALICE = namehash("alice.celo.eth");
+const BOB = namehash("bob.celo.eth");
+const TTL = 60_000;
+
+const withTempDir = (test: (dir: string) => Promise<void>) => async () => {
+  const dir = mkdtempSync(join(tmpdir(), "resolve-cache-"));
+  try {
+    await test(dir);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+describe("Resolution cache", () => {
+  it("Should evict the least recently used entry", async () => {
+    const cache = new MemoryResolutionCache(2);
+
+    await cache.set(ALICE, "text", "0x01", TTL);
+    await cache.set(ALICE, "addr", "0x02", TTL);
+    // reading marks the entry as recently used
+    await cache.get(ALICE, "text");
+    await cache.set(BOB, "text", "0x03", TTL);
+
+    assert.equal(await cache.get(ALICE, "text"), "0x01");
+    assert.equal(await cache.get(ALICE, "addr"), undefined);
+    assert.equal(await cache.get(BOB, "text"), "0x03");
+  });
+
+  it("Should not return expired entries", async () => {
+    const cache = new MemoryResolutionCache(10);
+
+    await cache.set(ALICE, "text", "0x01", 0);
+    await cache.set(ALICE, "addr", "0x02", TTL);
+
+    assert.equal(await cache.get(ALICE, "text"), undefined);
+    assert.equal(await cache.get(ALICE, "addr"), "0x02");
+  });
+
+  it("Should invalidate every entry of a node", async () => {
+    const cache = new MemoryResolutionCache(10);
+
+    await cache.set(ALICE, "text", "0x01", TTL);
+    await cache.set(ALICE, "addr", "0x02", TTL);
+    await cache.set(BOB, "text", "0x03", TTL);
+    await cache.invalidate(ALICE);
+
+    assert.equal(await cache.get(ALICE, "text"), undefined);
+    assert.equal(await cache.get(ALICE, "addr"), undefined);
+    assert.equal(await cache.get(BOB, "text"), "0x03");
+  });
+
+  it(
+    "Should persist unexpired entries to the cache file",
+    withTempDir(async (dir) => {
+      const filePath = join(dir, "nested", "cache.json");
+      const cache = new FileResolutionCache(filePath, 10);
+
+      await cache.set(ALICE, "text", "0x01", TTL);
+      await cache.set(ALICE, "addr", "0x02", 0);
+      await cache.set(BOB, "text", "0x03", TTL);
+      await cache.invalidate(BOB);
+      cache.flush();
+
+      assert.equal(JSON.parse(readFileSync(filePath, "utf-8")).length, 1);
+
+      const reloaded = new FileResolutionCache(filePath, 10);
+      assert.equal(await reloaded.get(ALICE, "text"), "0x01");
+      assert.equal(await reloaded.get(ALICE, "addr"), undefined);
+      assert.equal(await reloaded.get(BOB, "text"), undefined);
+    })
+  );
+
+  it(
+    "Should start empty when the cache file can't be read",
+    withTempDir(async (dir) => {
+      const cache = new FileResolutionCache(join(dir, "missing.json"), 10);
+
+      assert.equal(await cache.get(ALICE, "text"), undefined);
+    })
+  );
+
+  it("Should invalidate cached records on registry events", async () => {
+    let watched: { events: any[]; onLogs: (logs: any[]) => Promise<void> };
+    const client = {
+      ...createMockClient({
+        resolve: () =>
+          encodeFunctionResult({
+            abi: RESOLVER_ABI,
+            functionName: "text",
+            result: "ipfs://avatar",
+          }),
+      }),
+      watchEvent: (params: any) => {
+        watched = params;
+        return () => {};
+      },
+    } as unknown as L2Client;
+
+    const env = createTestEnv();
+    const web3Client = new Web3Client(env, () => client);
+    const unwatch = web3Client.watchRecordChanges();
+    const call = encodeFunctionData({
+      abi: RESOLVER_ABI,
+      functionName: "text",
+      args: [ALICE, "avatar"],
+    });
+    const resolveText = () =>
+      web3Client.performL2ResolverCallWithCacheStatus(
+        env.routes[0]!,
+        dnsEncode("alice.celo.eth"),
+        call
+      );
+
+    await resolveText();
+    assert.equal((await resolveText()).cache, "hit");
+
+    // owner cleared every record of the node
+    assert.ok(watched!.events.some((event) => event.name === "VersionChanged"));
+    await watched!.onLogs([
+      { eventName: "VersionChanged", args: { node: ALICE, newVersion: 1n } },
+    ]);
+    unwatch();
+
+    assert.equal((await resolveText()).cache, "miss");
+  });
+});
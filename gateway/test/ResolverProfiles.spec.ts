@@ -0,0 +1,184 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  decodeAbiParameters,
+  decodeFunctionResult,
+  encodeFunctionData,
+  encodeFunctionResult,
+  namehash,
+  type AbiFunction,
+  type Address,
+  type Hash,
+} from "viem";
+import { RESOLVER_ABI } from "../src/ccip-read/types";
+import { createRequest, createTestHandler, dnsEncode, SENDER } from "./utils";
+
+const CONTRACTS_DIR = fileURLToPath(
+  new URL("../../contracts/contracts", import.meta.url)
+);
+
+// Read functions of the L2 resolver which aren't records served to clients
+const IGNORED_FUNCTIONS = [
+  // ERC-165, answered by the L1Resolver itself
+  "supportsInterface(bytes4)",
+  // record versioning, bumped when the records of a node are cleared
+  "recordVersions(bytes32)",
+];
+
+const stripComments = (source: string) =>
+  source.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+
+// `bytes32 node, string calldata key` => `bytes32,string`
+const parameterTypes = (parameters: string) =>
+  parameters
+    .split(",")
+    .map((parameter) => parameter.trim().split(/\s+/)[0])
+    .filter(Boolean)
+    .join(",");
+
+/**
+ * Collects view functions declared by the local base contracts of
+ * `contractName`, following its inheritance tree through the imports
+ */
+function collectReadFunctions(
+  path: string,
+  contractName: string,
+  functions = new Map<string, string>()
+) {
+  const source = stripComments(readFileSync(path, "utf-8"));
+
+  const declaration = source.match(
+    new RegExp(`(?:contract|interface)\\s+${contractName}\\b([^{]*)\\{`)
+  );
+  assert.ok(declaration, `${contractName} not found in ${path}`);
+
+  for (const [, name, parameters, modifiers] of source.matchAll(
+    /function\s+(\w+)\s*\(([^)]*)\)([^;{]*)/g
+  )) {
+    const isRead = /\b(view|pure)\b/.test(modifiers);
+    if (isRead && /\b(external|public)\b/.test(modifiers)) {
+      const returns = modifiers.match(/returns\s*\(([^)]*)\)/)?.[1] || "";
+      functions.set(
+        `${name}(${parameterTypes(parameters)})`,
+        parameterTypes(returns)
+      );
+    }
+  }
+
+  const bases = declaration[1].replace(/^\s*is\s+/, "").split(",");
+  for (const base of bases.map((b) => b.trim()).filter(Boolean)) {
+    const imported = source.match(
+      new RegExp(`import\\s*{[^}]*\\b${base}\\b[^}]*}\\s*from\\s*["'](\\.[^"']+)["']`)
+    );
+    // OpenZeppelin bases (ERC165..) are not resolver profiles
+    if (imported) {
+      collectReadFunctions(join(dirname(path), imported[1]), base, functions);
+    }
+  }
+  return functions;
+}
+
+const gatewayFunctions = new Map(
+  (RESOLVER_ABI as readonly AbiFunction[]).map((item) => [
+    `${item.name}(${item.inputs.map((input) => input.type).join(",")})`,
+    item.outputs.map((output) => output.type).join(","),
+  ])
+);
+
+const resolveCall = (call: Hash) =>
+  encodeFunctionData({
+    abi: RESOLVER_ABI,
+    functionName: "resolve",
+    args: [dnsEncode("alice.celo.eth"), call],
+  });
+
+const resolveResult = async (call: Hash, result: Hash) => {
+  const handler = createTestHandler({ resolve: () => result });
+  const response = await handler.handle(createRequest(SENDER, resolveCall(call)));
+  handler.close();
+
+  assert.equal(response.status, 200);
+  const body = (await response.json()) as any;
+  const [signedResult] = decodeAbiParameters(
+    [{ type: "bytes" }, { type: "uint64" }, { type: "bytes" }],
+    body.data
+  );
+  return signedResult;
+};
+
+describe("Resolver profiles", () => {
+  it("Should cover every read function of the L2 resolver", () => {
+    const l2Functions = collectReadFunctions(
+      join(CONTRACTS_DIR, "L2Resolver.sol"),
+      "L2Resolver"
+    );
+    IGNORED_FUNCTIONS.forEach((signature) => l2Functions.delete(signature));
+
+    assert.ok(l2Functions.size > 0);
+    for (const [signature, outputs] of l2Functions) {
+      assert.ok(
+        gatewayFunctions.has(signature),
+        `${signature} is missing from RESOLVER_ABI`
+      );
+      assert.equal(
+        gatewayFunctions.get(signature),
+        outputs,
+        `${signature} outputs don't match the L2 resolver`
+      );
+    }
+  });
+
+  it("Should forward pubkey calls", async () => {
+    const x: Hash = `0x${"11".repeat(32)}`;
+    const y: Hash = `0x${"22".repeat(32)}`;
+    const call = encodeFunctionData({
+      abi: RESOLVER_ABI,
+      functionName: "pubkey",
+      args: [namehash("alice.celo.eth")],
+    });
+
+    const result = await resolveResult(
+      call,
+      encodeFunctionResult({
+        abi: RESOLVER_ABI,
+        functionName: "pubkey",
+        result: [x, y],
+      })
+    );
+
+    assert.deepEqual(
+      decodeFunctionResult({ abi: RESOLVER_ABI, functionName: "pubkey", data: result }),
+      [x, y]
+    );
+  });
+
+  it("Should forward interfaceImplementer calls", async () => {
+    const implementer: Address = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+    const call = encodeFunctionData({
+      abi: RESOLVER_ABI,
+      functionName: "interfaceImplementer",
+      args: [namehash("alice.celo.eth"), "0x01ffc9a7"],
+    });
+
+    const result = await resolveResult(
+      call,
+      encodeFunctionResult({
+        abi: RESOLVER_ABI,
+        functionName: "interfaceImplementer",
+        result: implementer,
+      })
+    );
+
+    assert.equal(
+      decodeFunctionResult({
+        abi: RESOLVER_ABI,
+        functionName: "interfaceImplementer",
+        data: result,
+      }),
+      implementer
+    );
+  });
+});
@@ -0,0 +1,226 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import {
+  decodeAbiParameters,
+  decodeFunctionResult,
+  encodeFunctionData,
+  encodeFunctionResult,
+  namehash,
+  zeroAddress,
+  type Address,
+  type Hash,
+} from "viem";
+import { RESOLVER_ABI } from "../src/ccip-read/types";
+import { ResponsePolicy } from "../src/policy/response-policy";
+import type { PolicyRules } from "../src/policy/rules";
+import {
+  createRequest,
+  createTestEnv,
+  createTestHandler,
+  dnsEncode,
+  SENDER,
+} from "./utils";
+
+const ALICE = "alice.celo.eth";
+const BOB = "bob.celo.eth";
+const ALICE_ADDRESS: Address = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const OTHER_ADDRESS: Address = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+const dir = mkdtempSync(join(tmpdir(), "gateway-policy-"));
+let configs = 0;
+
+const writePolicy = (rules: Partial<PolicyRules>, path?: string) => {
+  const file = path || join(dir, `policy-${configs++}.json`);
+  writeFileSync(file, JSON.stringify(rules));
+  return file;
+};
+
+const textCall = (name: string, key: string) =>
+  encodeFunctionData({
+    abi: RESOLVER_ABI,
+    functionName: "text",
+    args: [namehash(name), key],
+  });
+
+const textResult = (value: string) =>
+  encodeFunctionResult({ abi: RESOLVER_ABI, functionName: "text", result: value });
+
+const decodeText = (data: Hash) =>
+  decodeFunctionResult({ abi: RESOLVER_ABI, functionName: "text", data });
+
+const addrCall = (name: string) =>
+  encodeFunctionData({
+    abi: RESOLVER_ABI,
+    functionName: "addr",
+    args: [namehash(name)],
+  });
+
+const addrResult = encodeFunctionResult({
+  abi: RESOLVER_ABI,
+  functionName: "addr",
+  result: ALICE_ADDRESS,
+});
+
+describe("ResponsePolicy", () => {
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("Should serve records as they are without a config", () => {
+    const policy = new ResponsePolicy();
+
+    const result = policy.apply(ALICE, textCall(ALICE, "email"), textResult("a@celo.org"));
+
+    assert.equal(decodeText(result), "a@celo.org");
+  });
+
+  it("Should redact text keys for every name", () => {
+    const policy = new ResponsePolicy(
+      writePolicy({ texts: [{ key: "email", action: "redact" }] })
+    );
+
+    const email = policy.apply(ALICE, textCall(ALICE, "email"), textResult("a@celo.org"));
+    const url = policy.apply(ALICE, textCall(ALICE, "url"), textResult("https://celo.org"));
+    policy.close();
+
+    assert.equal(decodeText(email), "");
+    assert.equal(decodeText(url), "https://celo.org");
+  });
+
+  it("Should prefer rules scoped to the name", () => {
+    const policy = new ResponsePolicy(
+      writePolicy({
+        texts: [
+          { key: "avatar", action: "redact" },
+          { key: "avatar", name: ALICE, action: "override", value: "ipfs://safe" },
+        ],
+      })
+    );
+
+    const alice = policy.apply(ALICE, textCall(ALICE, "avatar"), textResult("ipfs://bad"));
+    const bob = policy.apply(BOB, textCall(BOB, "avatar"), textResult("ipfs://bob"));
+    policy.close();
+
+    assert.equal(decodeText(alice), "ipfs://safe");
+    assert.equal(decodeText(bob), "");
+  });
+
+  it("Should redact and override coin types", () => {
+    const policy = new ResponsePolicy(
+      writePolicy({
+        coin_types: [
+          { coin_type: 60, name: ALICE, action: "override", value: OTHER_ADDRESS },
+          { coin_type: 0, action: "redact" },
+        ],
+      })
+    );
+
+    const eth = policy.apply(ALICE, addrCall(ALICE), addrResult);
+    const btcCall = encodeFunctionData({
+      abi: RESOLVER_ABI,
+      functionName: "addr",
+      args: [namehash(ALICE), 0n],
+    });
+    const btc = policy.apply(ALICE, btcCall, "0x1234");
+    policy.close();
+
+    const [ethAddress] = decodeAbiParameters([{ type: "address" }], eth);
+    const [btcAddress] = decodeAbiParameters([{ type: "bytes" }], btc);
+    assert.equal(ethAddress, OTHER_ADDRESS);
+    assert.equal(btcAddress, "0x");
+  });
+
+  it("Should serve every record of blocked names empty", () => {
+    const policy = new ResponsePolicy(
+      writePolicy({ names: [{ name: "Spam.celo.eth", reason: "phishing" }] })
+    );
+
+    const text = policy.apply("spam.celo.eth", textCall("spam.celo.eth", "url"), textResult("https://x"));
+    const addr = policy.apply("spam.celo.eth", addrCall("spam.celo.eth"), addrResult);
+    policy.close();
+
+    assert.ok(policy.isNameBlocked("spam.celo.eth"));
+    assert.equal(decodeText(text), "");
+    assert.deepEqual(decodeAbiParameters([{ type: "address" }], addr), [zeroAddress]);
+  });
+
+  it("Should reload rules when the config changes", async () => {
+    const path = writePolicy({});
+    const reloadErrors: unknown[] = [];
+    const policy = new ResponsePolicy(path, 10, (err) => {
+      if (err) {
+        reloadErrors.push(err);
+      }
+    });
+    const email = () =>
+      decodeText(policy.apply(ALICE, textCall(ALICE, "email"), textResult("a@celo.org")));
+
+    // let the watcher stat the file before it changes
+    await sleep(50);
+    writePolicy({ texts: [{ key: "email", action: "redact" }] }, path);
+    for (let i = 0; i < 100 && email() !== ""; i++) {
+      await sleep(20);
+    }
+    const redacted = email();
+
+    // invalid config keeps the previous rules
+    writeFileSync(path, "{ invalid");
+    for (let i = 0; i < 100 && reloadErrors.length === 0; i++) {
+      await sleep(20);
+    }
+    const stillRedacted = email();
+    policy.close();
+
+    assert.equal(redacted, "");
+    assert.ok(reloadErrors.length > 0, "invalid config was never reloaded");
+    assert.equal(stillRedacted, "");
+  });
+
+  it("Should reject invalid configs", () => {
+    const path = writePolicy({
+      coin_types: [{ coin_type: 60, action: "override", value: "alice" }],
+    });
+
+    assert.throws(() => new ResponsePolicy(path), /Invalid policy config/);
+  });
+
+  it("Should reject coin type 60 overrides which are not addresses", () => {
+    const path = writePolicy({
+      coin_types: [{ coin_type: 60, action: "override", value: "0x1234" }],
+    });
+
+    assert.throws(
+      () => new ResponsePolicy(path),
+      /coin type 60 override value must be an address/
+    );
+  });
+
+  it("Should sign redacted records", async () => {
+    const env = createTestEnv({
+      policy_path: writePolicy({ texts: [{ key: "email", action: "redact" }] }),
+    });
+    const handler = createTestHandler({ resolve: () => textResult("a@celo.org") }, env);
+
+    const response = await handler.handle(
+      createRequest(
+        SENDER,
+        encodeFunctionData({
+          abi: RESOLVER_ABI,
+          functionName: "resolve",
+          args: [dnsEncode(ALICE), textCall(ALICE, "email")],
+        })
+      )
+    );
+    handler.close();
+    const body = (await response.json()) as any;
+    const [result] = decodeAbiParameters(
+      [{ type: "bytes" }, { type: "uint64" }, { type: "bytes" }],
+      body.data
+    );
+
+    assert.equal(response.status, 200);
+    assert.equal(decodeText(result), "");
+  });
+});
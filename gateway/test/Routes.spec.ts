@@ -0,0 +1,70 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { celo } from "viem/chains";
+import { findRoute, loadRoutesConfig, type L2Route } from "../src/ccip-read/routes";
+import { L2_RESOLVER } from "./utils";
+
+const route = (suffix: string): L2Route => ({
+  suffix,
+  chain: celo,
+  l2_resolver: L2_RESOLVER,
+});
+
+const loadRoutes = (routes: object[]) => {
+  const dir = mkdtempSync(join(tmpdir(), "routes-"));
+  const path = join(dir, "routes.json");
+  try {
+    writeFileSync(path, JSON.stringify({ routes }));
+    return loadRoutesConfig(path);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+describe("Routes", () => {
+  it("Should match the longest suffix", () => {
+    const routes = [route("celo.eth"), route("team.celo.eth")];
+
+    assert.equal(findRoute(routes, "alice.celo.eth")?.suffix, "celo.eth");
+    assert.equal(findRoute(routes, "bob.team.celo.eth")?.suffix, "team.celo.eth");
+    assert.equal(findRoute(routes, "Team.Celo.eth")?.suffix, "team.celo.eth");
+  });
+
+  it("Should only match whole labels", () => {
+    const routes = [route("celo.eth")];
+
+    assert.equal(findRoute(routes, "alice.xcelo.eth"), null);
+    assert.equal(findRoute(routes, "alice.eth"), null);
+  });
+
+  it("Should fall back to the empty suffix", () => {
+    const routes = [route(""), route("celo.eth")];
+
+    assert.equal(findRoute(routes, "alice.celo.eth")?.suffix, "celo.eth");
+    assert.equal(findRoute(routes, "alice.eth")?.suffix, "");
+  });
+
+  it("Should load routes from the config file", () => {
+    const routes = loadRoutes([
+      { suffix: "Celo.eth", chain_id: celo.id, resolver: L2_RESOLVER },
+    ]);
+
+    assert.equal(routes.length, 1);
+    assert.equal(routes[0]!.suffix, "celo.eth");
+    assert.equal(routes[0]!.chain.id, celo.id);
+  });
+
+  it("Should reject duplicate suffixes", () => {
+    assert.throws(
+      () =>
+        loadRoutes([
+          { suffix: "celo.eth", chain_id: celo.id, resolver: L2_RESOLVER },
+          { suffix: "CELO.eth", chain_id: celo.id, resolver: L2_RESOLVER },
+        ]),
+      /Duplicate route suffix: celo.eth/
+    );
+  });
+});
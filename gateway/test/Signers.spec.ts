@@ -0,0 +1,188 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type RequestListener } from "http";
+import type { AddressInfo } from "net";
+import { keccak256, recoverAddress, type Hash } from "viem";
+import { privateKeyToAddress } from "viem/accounts";
+import { SignerUnavailableError } from "../src/ccip-read/errors";
+import { decryptKeystore } from "../src/signers/keystore-signer";
+import { LocalResponseSigner } from "../src/signers/local-signer";
+import { RemoteResponseSigner } from "../src/signers/remote-signer";
+import { RotatingResponseSigner } from "../src/signers/rotating-signer";
+import { SIGNER_KEY } from "./utils";
+
+const PASSWORD = "testpassword";
+const KEYSTORE_KEY =
+  "0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d";
+const NEXT_KEY: Hash =
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+// PBKDF2 test vector of the Web3 Secret Storage definition
+const PBKDF2_KEYSTORE = {
+  version: 3,
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+    ciphertext:
+      "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+    kdf: "pbkdf2",
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: "hmac-sha256",
+      salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd",
+    },
+    mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2",
+  },
+};
+
+// Same key encrypted with scrypt ( n = 8192, r = 8, p = 1 ) by @noble/hashes.
+// The scrypt vector of the definition uses r = 1 with n = 2^18, which
+// is above the RFC 7914 limit enforced by node's scrypt
+const SCRYPT_KEYSTORE = {
+  version: 3,
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "83dbcc02d8ccb40e466191a123791e0e" },
+    ciphertext:
+      "91c23c03a8b5117a6e3d78dbb5dfc46f037aff9351dff59c2879586f51756502",
+    kdf: "scrypt",
+    kdfparams: {
+      dklen: 32,
+      n: 8192,
+      r: 8,
+      p: 1,
+      salt: "ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19",
+    },
+    mac: "8f8639fe08fe1f43d6c13006d66ad2d993c6674ee2ba03f025596797a73614b9",
+  },
+};
+
+const HASH = keccak256("0x01");
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const isSignerUnavailable = (err: unknown) => {
+  assert.ok(err instanceof SignerUnavailableError);
+  assert.equal(err.status, 502);
+  return true;
+};
+
+// Runs `test` against a local http server standing in for the remote signer
+const withRemoteSigner =
+  (listener: RequestListener, test: (url: string) => Promise<void>) =>
+  async () => {
+    const server = createServer(listener);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      await test(`http://127.0.0.1:${port}`);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  };
+
+const signedBy = async (signer: RotatingResponseSigner) =>
+  recoverAddress({ hash: HASH, signature: await signer.signHash(HASH) });
+
+describe("Signers", () => {
+  it("Should decrypt pbkdf2 keystores", () => {
+    const key = decryptKeystore(JSON.stringify(PBKDF2_KEYSTORE), PASSWORD);
+
+    assert.equal(key, KEYSTORE_KEY);
+    assert.equal(
+      privateKeyToAddress(key),
+      "0x008AeEda4D805471dF9b2A5B0f38A0C3bCBA786b"
+    );
+  });
+
+  it("Should decrypt scrypt keystores", () => {
+    const key = decryptKeystore(JSON.stringify(SCRYPT_KEYSTORE), PASSWORD);
+
+    assert.equal(key, KEYSTORE_KEY);
+  });
+
+  it("Should reject a wrong keystore password", () => {
+    assert.throws(
+      () => decryptKeystore(JSON.stringify(SCRYPT_KEYSTORE), "wrong"),
+      { message: "Invalid keystore password" }
+    );
+  });
+
+  it("Should sign with the active signer before the rotation", async () => {
+    const signer = new RotatingResponseSigner(
+      new LocalResponseSigner(SIGNER_KEY),
+      new LocalResponseSigner(NEXT_KEY),
+      nowSeconds() + 60
+    );
+
+    assert.equal(await signer.getAddress(), privateKeyToAddress(SIGNER_KEY));
+    assert.equal(await signedBy(signer), privateKeyToAddress(SIGNER_KEY));
+  });
+
+  it("Should sign with the next signer from the rotation time", async () => {
+    const signer = new RotatingResponseSigner(
+      new LocalResponseSigner(SIGNER_KEY),
+      new LocalResponseSigner(NEXT_KEY),
+      nowSeconds()
+    );
+
+    assert.equal(await signer.getAddress(), privateKeyToAddress(NEXT_KEY));
+    assert.equal(await signedBy(signer), privateKeyToAddress(NEXT_KEY));
+  });
+
+  it(
+    "Should fail with a 502 when the remote signer hangs",
+    // accepts connections without ever answering
+    withRemoteSigner(() => {}, async (url) => {
+      const signer = new RemoteResponseSigner(url, undefined, 50);
+
+      await assert.rejects(signer.signHash(HASH), isSignerUnavailable);
+    })
+  );
+
+  it(
+    "Should fail with a 502 when the remote signer returns an error",
+    withRemoteSigner(
+      (_req, res) => {
+        res.statusCode = 500;
+        res.end();
+      },
+      async (url) => {
+        const signer = new RemoteResponseSigner(url);
+
+        await assert.rejects(signer.signHash(HASH), isSignerUnavailable);
+      }
+    )
+  );
+
+  it(
+    "Should fail with a 502 when the remote signer returns an invalid signature",
+    withRemoteSigner(
+      (req, res) => {
+        res.setHeader("Content-Type", "application/json");
+        res.end(
+          req.url === "/address"
+            ? JSON.stringify({ address: privateKeyToAddress(SIGNER_KEY) })
+            : JSON.stringify({ signature: "0x1234" })
+        );
+      },
+      async (url) => {
+        const signer = new RemoteResponseSigner(url);
+
+        await assert.rejects(signer.signHash(HASH), isSignerUnavailable);
+      }
+    )
+  );
+
+  it("Should fail with a 502 when the remote signer can't be reached", async () => {
+    // port of a closed server, connections are refused
+    const server = createServer();
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    await new Promise((resolve) => server.close(resolve));
+    const signer = new RemoteResponseSigner(`http://127.0.0.1:${port}`);
+
+    await assert.rejects(signer.signHash(HASH), isSignerUnavailable);
+  });
+});
@@ -0,0 +1,115 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  type Address,
+  type Hex,
+} from "viem";
+import { getEnsAddress, getEnsText } from "viem/ens";
+import { now, ROOT_NAME } from "../utils";
+import { startHarness, type E2EHarness } from "./harness";
+
+const ALICE = `alice.${ROOT_NAME}`;
+const ALICE_ADDRESS: Address = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const AVATAR = "https://celo.org/avatar.png";
+const RESPONSE_TTL = 60;
+
+// Revert reason of a failed universal resolver call
+const getRevertError = (err: unknown) => {
+  const revert =
+    err instanceof BaseError &&
+    err.walk((e) => e instanceof ContractFunctionRevertedError);
+  assert.ok(revert instanceof ContractFunctionRevertedError);
+  assert.ok(revert.data);
+  return revert.data;
+};
+
+describe("CCIP-Read - E2E", () => {
+  let harness: E2EHarness;
+
+  const resolveAddress = (name: string, strict = false) =>
+    getEnsAddress(harness.client, {
+      name,
+      strict,
+      universalResolverAddress: harness.universalResolver,
+    });
+
+  before(async () => {
+    harness = await startHarness({ response_ttl: RESPONSE_TTL });
+    await harness.register("alice", {
+      address: ALICE_ADDRESS,
+      texts: { avatar: AVATAR },
+    });
+  });
+
+  after(async () => {
+    await harness?.close();
+  });
+
+  it("Should resolve an address through the gateway", async () => {
+    const address = await resolveAddress(ALICE);
+
+    assert.equal(address, ALICE_ADDRESS);
+  });
+
+  it("Should resolve a text record through the gateway", async () => {
+    const avatar = await getEnsText(harness.client, {
+      name: ALICE,
+      key: "avatar",
+      universalResolverAddress: harness.universalResolver,
+    });
+
+    assert.equal(avatar, AVATAR);
+  });
+
+  it("Should not resolve names which were never registered", async () => {
+    assert.equal(await resolveAddress(`nobody.${ROOT_NAME}`), null);
+  });
+
+  it("Should not resolve revoked names", async () => {
+    const name = `bob.${ROOT_NAME}`;
+    await harness.register("bob", { address: ALICE_ADDRESS });
+    assert.equal(await resolveAddress(name), ALICE_ADDRESS);
+
+    await harness.revoke("bob");
+
+    assert.equal(await resolveAddress(name), null);
+    await assert.rejects(resolveAddress(name, true), (err) => {
+      const revert = getRevertError(err);
+      assert.equal(revert.errorName, "HttpError");
+      assert.equal(revert.args?.[0], 404);
+      return true;
+    });
+  });
+
+  it("Should not resolve expired names", async () => {
+    const name = `carol.${ROOT_NAME}`;
+    const expiry = (await harness.nextBlockTimestamp()) + 2n;
+    await harness.register("carol", { address: ALICE_ADDRESS, expiry });
+
+    // Gateway checks expiry against its own clock
+    await sleep(Math.max(Number(expiry - now() + 1n), 0) * 1000);
+    await harness.increaseTime(1);
+
+    assert.equal(await resolveAddress(name), null);
+  });
+
+  it("Should reject gateway responses with expired signatures", async () => {
+    await harness.increaseTime(RESPONSE_TTL * 2);
+
+    await assert.rejects(resolveAddress(ALICE, true), (err) => {
+      const revert = getRevertError(err);
+      assert.equal(revert.errorName, "ResolverError");
+
+      const { errorName } = decodeErrorResult({
+        abi: harness.l1Resolver.abi,
+        data: revert.args?.[0] as Hex,
+      });
+      assert.equal(errorName, "SignatureExpired");
+      return true;
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { createRequire } from "node:module";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { serve, type ServerType } from "@hono/node-server";
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  custom,
+  encodeFunctionData,
+  namehash,
+  type Abi,
+  type Address,
+  type EIP1193Provider,
+  type Hash,
+  type Hex,
+} from "viem";
+import { localhost } from "viem/chains";
+import { privateKeyToAccount } from "viem/accounts";
+import { createApp } from "../../src/app";
+import { CCIPReadHandler } from "../../src/ccip-read/handler";
+import { Web3Client, type L2Client } from "../../src/ccip-read/web3-client";
+import { createTestEnv, ONE_YEAR, ROOT_NAME, SIGNER_KEY } from "../utils";
+
+const CONTRACTS_DIR = fileURLToPath(
+  new URL("../../../contracts", import.meta.url)
+);
+
+// Parts of the Hardhat runtime environment used by the harness
+interface HardhatRuntime {
+  network: { provider: EIP1193Provider };
+  artifacts: {
+    readArtifact(name: string): Promise<{ abi: Abi; bytecode: Hex }>;
+  };
+  run(task: string, args?: Record<string, unknown>): Promise<unknown>;
+}
+
+export interface RegisterOptions {
+  expiry?: bigint;
+  address?: Address;
+  texts?: Record<string, string>;
+}
+
+export interface HarnessOptions {
+  // validity of signed gateway responses in seconds
+  response_ttl?: number;
+}
+
+export type E2EHarness = Awaited<ReturnType<typeof startHarness>>;
+
+/**
+ * Hardhat is loaded from the contracts package, so contracts
+ * are compiled and deployed with the same config they are tested with
+ */
+function loadHardhat(): HardhatRuntime {
+  process.env.HARDHAT_CONFIG ??= join(CONTRACTS_DIR, "hardhat.config.ts");
+  const require = createRequire(join(CONTRACTS_DIR, "package.json"));
+  return require("hardhat");
+}
+
+/**
+ * Boots an in-process Hardhat node with the L2Registry and L1Resolver
+ * deployed on it and serves the gateway app on a random port. The same
+ * chain acts both as L1 and L2, an ENS registry and universal resolver
+ * mocks are deployed so names can be resolved with viem ENS actions.
+ */
+export async function startHarness(options: HarnessOptions = {}) {
+  const hre = loadHardhat();
+  await hre.run("compile", { quiet: true });
+
+  // The in-process provider throws reverts without a JSON-RPC error code,
+  // they are tagged the way Hardhat's JSON-RPC server does so viem can
+  // decode errors raised from CCIP-Read callbacks
+  const provider = {
+    request: async (args: { method: string; params?: unknown }) => {
+      try {
+        return await hre.network.provider.request(args as any);
+      } catch (err) {
+        throw Object.assign(err as Error, {
+          code: (err as { code?: number }).code ?? -32603,
+        });
+      }
+    },
+  };
+  const publicClient = createPublicClient({
+    chain: localhost,
+    transport: custom(provider),
+    pollingInterval: 100,
+  });
+  const walletClient = createWalletClient({
+    chain: localhost,
+    transport: custom(provider),
+  });
+  const testClient = createTestClient({
+    chain: localhost,
+    mode: "hardhat",
+    transport: custom(provider),
+  });
+  const [owner, registrar, user] = await walletClient.getAddresses();
+
+  const deploy = async (name: string, args: unknown[] = []) => {
+    const { abi, bytecode } = await hre.artifacts.readArtifact(name);
+    const hash = await walletClient.deployContract({
+      abi,
+      bytecode,
+      args,
+      account: owner,
+    });
+    const { contractAddress } = await publicClient.getTransactionReceipt({
+      hash,
+    });
+    return { abi, address: contractAddress as Address };
+  };
+
+  const write = async (
+    contract: { abi: Abi; address: Address },
+    functionName: string,
+    args: unknown[],
+    account: Address = owner
+  ) => {
+    const hash = await walletClient.writeContract({
+      ...contract,
+      functionName,
+      args,
+      account,
+    });
+    await publicClient.getTransactionReceipt({ hash });
+  };
+
+  // Hardhat mines pending blocks ahead of the wall clock
+  // when many transactions are sent in a short time
+  const nextBlockTimestamp = async () => {
+    const block = await publicClient.getBlock({ blockTag: "pending" });
+    return block.timestamp;
+  };
+
+  // L2 side
+  const ensRegistry = await deploy("MockedEnsRegistry");
+  const nameWrapper = await deploy("MockedNameWrapper");
+  const registry = await deploy("L2Registry", [
+    "Celo Names",
+    "CNS",
+    ROOT_NAME,
+    namehash(ROOT_NAME),
+    "https://metadata.celo.eth/",
+  ]);
+  await write(registry, "setRegistrar", [registrar, true]);
+
+  // Gateway, reading from the in-process node
+  const env = createTestEnv({
+    response_ttl: options.response_ttl ?? 60,
+    routes: [
+      { suffix: ROOT_NAME, chain: localhost, l2_resolver: registry.address },
+    ],
+  });
+  env.cache.ttl = { addr: 0, text: 0, contenthash: 0, ABI: 0, default: 0 };
+
+  const web3Client = new Web3Client(env, () => publicClient as L2Client);
+  const handler = new CCIPReadHandler(env, web3Client);
+  const app = createApp(env, handler);
+  const { server, port } = await new Promise<{
+    server: ServerType;
+    port: number;
+  }>((resolve) => {
+    const server = serve({ fetch: app.fetch, port: 0 }, (info) =>
+      resolve({ server, port: info.port })
+    );
+  });
+  const gatewayUrl = `http://127.0.0.1:${port}/resolve/{sender}/{data}`;
+
+  // L1 side
+  const l1Resolver = await deploy("L1Resolver", [
+    [privateKeyToAccount(SIGNER_KEY).address],
+    [gatewayUrl],
+    nameWrapper.address,
+    ensRegistry.address,
+  ]);
+  const universalResolver = await deploy("MockedUniversalResolver", [
+    ensRegistry.address,
+  ]);
+  await write(ensRegistry, "setResolver", [
+    namehash(ROOT_NAME),
+    l1Resolver.address,
+  ]);
+
+  // Registers `label` under the root name with
+  // the given records set in the same transaction
+  const register = async (label: string, records: RegisterOptions = {}) => {
+    const node = namehash(`${label}.${ROOT_NAME}`);
+    const expiry = records.expiry ?? (await nextBlockTimestamp()) + ONE_YEAR;
+
+    const resolverData: Hash[] = [];
+    if (records.address) {
+      resolverData.push(
+        encodeFunctionData({
+          abi: registry.abi,
+          functionName: "setAddr",
+          args: [node, records.address],
+        })
+      );
+    }
+    for (const [key, value] of Object.entries(records.texts || {})) {
+      resolverData.push(
+        encodeFunctionData({
+          abi: registry.abi,
+          functionName: "setText",
+          args: [node, key, value],
+        })
+      );
+    }
+
+    await write(
+      registry,
+      "createSubnode",
+      [label, expiry, user, resolverData],
+      registrar
+    );
+  };
+
+  const revoke = async (label: string) => {
+    await write(registry, "revoke", [namehash(`${label}.${ROOT_NAME}`)]);
+  };
+
+  const increaseTime = async (seconds: number) => {
+    await testClient.increaseTime({ seconds });
+    await testClient.mine({ blocks: 1 });
+  };
+
+  const close = async () => {
+    handler.close();
+    await new Promise((resolve) => server.close(resolve));
+  };
+
+  return {
+    client: publicClient,
+    universalResolver: universalResolver.address,
+    l1Resolver,
+    registry,
+    register,
+    revoke,
+    increaseTime,
+    nextBlockTimestamp,
+    close,
+  };
+}
@@ -0,0 +1,96 @@
+import type { HonoRequest } from "hono";
+import { stringToHex, toHex, type Address, type Hash } from "viem";
+import { celo } from "viem/chains";
+import type { Env } from "../src/env";
+import type { L2Route } from "../src/ccip-read/routes";
+import { Web3Client, type L2Client } from "../src/ccip-read/web3-client";
+import { CCIPReadHandler } from "../src/ccip-read/handler";
+
+export const ROOT_NAME = "celo.eth";
+export const SENDER: Address = "0x1111111111111111111111111111111111111111";
+export const L2_RESOLVER: Address = "0x2222222222222222222222222222222222222222";
+export const SIGNER_KEY: Hash =
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+export const ONE_YEAR = 365n * 24n * 60n * 60n;
+
+export const now = (): bigint => BigInt(Math.floor(Date.now() / 1000));
+
+export function createTestEnv(overrides: Partial<Env> = {}): Env {
+  const ttl = 5 * 60 * 1000;
+  return {
+    alchemy_token: undefined,
+    signer: { type: "local", private_key: SIGNER_KEY },
+    response_ttl: 1000,
+    routes: [{ suffix: ROOT_NAME, chain: celo, l2_resolver: L2_RESOLVER }],
+    app_port: 0,
+    cache: {
+      backend: "memory",
+      max_entries: 100,
+      file_path: "",
+      ttl: { addr: ttl, text: ttl, contenthash: ttl, ABI: ttl, default: ttl },
+    },
+    protection: {
+      max_data_bytes: 4096,
+      allowed_senders: [],
+      trust_proxy: false,
+    },
+    ...overrides,
+  };
+}
+
+export interface MockL2 {
+  // expiry returned by `expiries(node)`
+  expiry?: bigint;
+  // result returned by `resolve(name, data)`
+  resolve?: (data: Hash) => Hash | Promise<Hash>;
+  // error thrown by every read
+  error?: Error;
+}
+
+/**
+ * Creates a public client double which only implements
+ * the actions used by Web3Client
+ */
+export function createMockClient(mock: MockL2): L2Client {
+  const readContract = async ({ functionName, args }: any) => {
+    if (mock.error) {
+      throw mock.error;
+    }
+    if (functionName === "expiries") {
+      return mock.expiry ?? now() + ONE_YEAR;
+    }
+    if (functionName === "resolve") {
+      return mock.resolve ? mock.resolve(args[1]) : "0x";
+    }
+    throw new Error(`Unexpected call to ${functionName}`);
+  };
+
+  return {
+    readContract,
+    watchEvent: () => () => {},
+  } as unknown as L2Client;
+}
+
+export function createTestHandler(mock: MockL2, env: Env = createTestEnv()) {
+  const web3Client = new Web3Client(env, () => createMockClient(mock));
+  return new CCIPReadHandler(env, web3Client);
+}
+
+export function createRequest(sender: string, data: string): HonoRequest {
+  return { param: () => ({ sender, data }) } as unknown as HonoRequest;
+}
+
+/**
+ * DNS encode a domain name for ENS resolution
+ * @param name - Domain name to encode (e.g., "celo.eth")
+ * @returns DNS-encoded hex string (e.g., "0x0463656c6f0365746800")
+ */
+export function dnsEncode(name: string): Hash {
+  let encoded = "0x";
+  for (const label of name.split(".")) {
+    const length = toHex(Buffer.byteLength(label), { size: 1 });
+    encoded += length.slice(2) + stringToHex(label).slice(2);
+  }
+  return `${encoded}00` as Hash;
+}
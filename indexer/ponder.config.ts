@@ -1,13 +1,54 @@
 import { createConfig } from "ponder";
-import { celo } from "viem/chains";
+import { mainnet } from "viem/chains";
 import { getEnvironment } from "./src/env";
-import { CONTRACTS } from "./src/contracts";
 import L2_RESOLVER_ABI from "./src/abis/l2-resolver.abi";
 import L2_REGISTRY_ABI from "./src/abis/l2-registry.abi";
 import L2_REGISTRAR_ABI from "./src/abis/l2-registrar.abi";
 import L2_SELF_REGISTRAR_ABI from "./src/abis/l2-self-registrar.abi";
+import REGISTRAR_STORAGE_ABI from "./src/abis/registrar-storage.abi";
+import ENS_REVERSE_REGISTRAR_ABI from "./src/abis/ens-reverse-registrar.abi";
+import ENS_PUBLIC_RESOLVER_ABI from "./src/abis/ens-public-resolver.abi";
+import L1_RESOLVER_ABI from "./src/abis/l1-resolver.abi";
 
 const env = getEnvironment();
+const { contracts, start_blocks, ethereum } = env.deployment;
+
+// Primary names set on Ethereum mainnet and L1Resolver settings are only
+// indexed when ETH_RPC_URL is set
+const ethereumContracts = env.eth_rpc_url && ethereum
+  ? {
+      chains: {
+        ethereum: {
+          id: mainnet.id,
+          rpc: env.eth_rpc_url,
+        },
+      },
+      contracts: {
+        EnsReverseRegistrar: {
+          chain: "ethereum",
+          abi: ENS_REVERSE_REGISTRAR_ABI,
+          address: ethereum.ENS_REVERSE_REGISTRAR,
+          startBlock: env.eth_start_block,
+        },
+        EnsPublicResolver: {
+          chain: "ethereum",
+          abi: ENS_PUBLIC_RESOLVER_ABI,
+          address: ethereum.ENS_PUBLIC_RESOLVER,
+          startBlock: env.eth_start_block,
+        },
+        L1Resolver: {
+          chain: "ethereum",
+          abi: L1_RESOLVER_ABI,
+          address: ethereum.L1_RESOLVER,
+          startBlock: env.eth_start_block,
+        },
+      },
+    } as const
+  : undefined;
+
+// Spreading undefined adds nothing, the casts keep the Ethereum contracts in the
+// event types of ponder:registry. Their handlers check ETH_RPC_URL as well
+type EthereumContracts = NonNullable<typeof ethereumContracts>;
 
 export default createConfig({
   database: {
@@ -15,35 +56,47 @@ export default createConfig({
     connectionString: env.db_connection_string,
   },
   chains: {
+    // L2 chain of the deployment, named celo on every profile
     celo: {
-      id: celo.id,
+      id: env.deployment.chain_id,
       rpc: env.rpc_url,
+      disableCache: env.deployment.disable_cache,
     },
+    ...(ethereumContracts?.chains as EthereumContracts["chains"]),
   },
   contracts: {
     Registry: {
       chain: "celo",
       abi: L2_REGISTRY_ABI,
-      address: CONTRACTS.L2_REGISTRY,
-      startBlock: 46660369,
+      address: contracts.L2_REGISTRY,
+      startBlock: start_blocks.L2_REGISTRY,
     },
     Resolver: {
       chain: "celo",
       abi: L2_RESOLVER_ABI,
-      address: CONTRACTS.L2_REGISTRY,
-      startBlock: 46660369,
+      address: contracts.L2_REGISTRY,
+      startBlock: start_blocks.L2_REGISTRY,
     },
     Registrar: {
       chain: "celo",
       abi: L2_REGISTRAR_ABI,
-      address: CONTRACTS.L2_REGISTRAR,
-      startBlock: 46660369
+      address: contracts.L2_REGISTRAR,
+      startBlock: start_blocks.L2_REGISTRAR,
     },
     SelfRegistrar: {
       chain: "celo",
       abi: L2_SELF_REGISTRAR_ABI,
-      address: CONTRACTS.L2_SELF_REGISTRAR,
-      startBlock: 48572249
-    }
+      address: contracts.L2_SELF_REGISTRAR,
+      startBlock: start_blocks.L2_SELF_REGISTRAR,
+    },
+    RegistrarStorage: {
+      chain: "celo",
+      abi: REGISTRAR_STORAGE_ABI,
+      address: contracts.REGISTRAR_STORAGE,
+      startBlock: start_blocks.REGISTRAR_STORAGE,
+      // claim counts, `claim` doesn't emit an event
+      includeCallTraces: true,
+    },
+    ...(ethereumContracts?.contracts as EthereumContracts["contracts"]),
   },
 });
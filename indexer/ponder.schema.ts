@@ -1,11 +1,38 @@
-import { onchainTable, relations } from "ponder";
+import { index, onchainTable, primaryKey, relations } from "ponder";
 
 // Records table - resolver data for a node
+// `addresses` and `texts` mirror the address_records and text_records tables,
+// they are kept for clients reading the records as JSON arrays
 export const record = onchainTable("records", (t) => ({
   id: t.text().primaryKey(), // node from event (one-to-one with names)
-  addresses: t.json(), // Array of { coin: number, value: string, name?:string }
+  addresses: t.json(), // Array of { coin: number, coin_type: string, value: string, name?:string }
   texts: t.json(), // Array of { key: string, value: string }
   contenthash: t.json(), // { codec: string, decoded: string, encoded: string }
+  pubkey: t.json(), // { x: string, y: string }
+  abis: t.json(), // Array of { content_type: number, data: string }
+  interfaces: t.json(), // Array of { interface_id: string, implementer: string }
+  name_record: t.text(), // EIP-181 name, set on reverse nodes for primary names
+}));
+
+// Text records - one row per text key set on a node
+export const textRecord = onchainTable("text_records", (t) => ({
+  node: t.text().notNull(),
+  key: t.text().notNull(),
+  value: t.text().notNull(),
+}), (table) => ({
+  pk: primaryKey({ columns: [table.node, table.key] }),
+  keyIdx: index().on(table.key),
+}));
+
+// Address records - one row per coin type set on a node
+export const addressRecord = onchainTable("address_records", (t) => ({
+  node: t.text().notNull(),
+  coin: t.bigint().notNull(), // ENSIP-11 coin types don't fit in an integer
+  value: t.text().notNull(),
+  coin_name: t.text().notNull(), // from address-encoder, "unkown" if the coin isn't supported
+}), (table) => ({
+  pk: primaryKey({ columns: [table.node, table.coin] }),
+  coinIdx: index().on(table.coin),
 }));
 
 // Names table - basic name information
@@ -13,13 +40,23 @@ export const name = onchainTable("names", (t) => ({
   id: t.text().primaryKey(), // node from event ( namehash of name )
   label: t.text().notNull(),
   full_name: t.text().notNull(),
-  expiry: t.bigint().notNull(),
+  parent_id: t.text().notNull(), // node of the parent name, root node for first level names
+  depth: t.integer().notNull(), // number of labels below the root name ( alice.celo.eth -> 1 )
+  expiry: t.bigint().notNull(), // status ( active, grace, expired ) is derived from it when read
   owner: t.text().notNull(),
-  created_at: t.bigint().notNull()
+  created_at: t.bigint().notNull(), // block timestamp of the latest registration
+  registration_id: t.text(), // current registration, null for names not created by a registrar
+}), (table) => ({
+  parentIdx: index().on(table.parent_id),
+  expiryIdx: index().on(table.expiry),
 }));
 
+// Registrations table - one row per registration, a name registered again
+// after it expired gets a new row
 export const registration = onchainTable("registrations", (t) => ({
-  id: t.text().primaryKey(), // node from event ( namehash of name )
+  id: t.text().primaryKey(), // ponder event id of NameRegistered / NameClaimed
+  node: t.text().notNull(),
+  duration_years: t.bigint().notNull(),
   price_wei: t.bigint().notNull(),
   tx_hash: t.text().notNull(),
   block_number: t.bigint().notNull(),
@@ -28,14 +65,192 @@ export const registration = onchainTable("registrations", (t) => ({
   block_timestamp: t.bigint().notNull(),
   payment_token: t.text().notNull(),
   is_self_claim: t.boolean().notNull()
-}))
+}), (table) => ({
+  nodeIdx: index().on(table.node),
+}));
+
+// Renewals table - one row per renewal paid to the registrar
+export const renewal = onchainTable("renewals", (t) => ({
+  id: t.text().primaryKey(), // ponder event id of NameRenewed
+  node: t.text().notNull(),
+  registration_id: t.text(), // registration extended by the renewal
+  duration_years: t.bigint().notNull(),
+  price_wei: t.bigint().notNull(),
+  payment_token: t.text().notNull(),
+  expiry: t.bigint().notNull(), // expiry of the name after the renewal
+  tx_hash: t.text().notNull(),
+  block_number: t.bigint().notNull(),
+  tx_sender: t.text().notNull(),
+  block_timestamp: t.bigint().notNull(),
+}), (table) => ({
+  nodeIdx: index().on(table.node),
+}));
+
+// Events table - append only history of registry, resolver and registrar events
+export const eventLog = onchainTable("events", (t) => ({
+  id: t.text().primaryKey(), // ponder event id, sorts events in chain order
+  type: t.text().notNull(), // event name ( NewName, TextChanged, NameRegistered.. )
+  node: t.text().notNull(),
+  tx_hash: t.text().notNull(),
+  block_number: t.bigint().notNull(),
+  block_timestamp: t.bigint().notNull(),
+  actor: t.text().notNull(), // transaction sender
+  payload: t.json().notNull(), // decoded event args, bigints as strings
+}), (table) => ({
+  nodeIdx: index().on(table.node),
+  actorIdx: index().on(table.actor),
+}));
+
+// Primary names - name set on the reverse record of an address,
+// on the L2 registry ( chain "celo" ) or through the ENS reverse registrar ( chain "ethereum" )
+export const primaryName = onchainTable("primary_names", (t) => ({
+  address: t.text().notNull(), // lowercased
+  chain: t.text().notNull(),
+  full_name: t.text().notNull(),
+  name_id: t.text().notNull(), // namehash of full_name
+  reverse_node: t.text().notNull(), // namehash of <address>.addr.reverse
+  updated_at: t.bigint().notNull(),
+}), (table) => ({
+  pk: primaryKey({ columns: [table.address, table.chain] }),
+  nameIdx: index().on(table.name_id),
+  reverseNodeIdx: index().on(table.reverse_node),
+}));
+
+// Addresses of reverse nodes, NameChanged events only include the node.
+// From ReverseClaimed of the ENS reverse registrar and the primary names
+// found on the L2 registry, the reverse node of an address is the same on both
+export const reverseNode = onchainTable("reverse_nodes", (t) => ({
+  id: t.text().primaryKey(), // namehash of <address>.addr.reverse
+  address: t.text().notNull(),
+}));
+
+// Self verified addresses - from VerificationCompleted of the self registrar
+export const verifiedAddress = onchainTable("verified_addresses", (t) => ({
+  id: t.text().primaryKey(), // lowercased address
+  verification_id: t.bigint().notNull(), // Self protocol verification id
+  is_verified: t.boolean().notNull(), // false once the verification is deleted
+  verified_at: t.bigint().notNull(),
+  claim_count: t.integer().notNull(), // names claimed through the self registrar ( RegistrarStorage.claim calls )
+}));
+
+// Registrar storage settings shared by the blacklist and the whitelist
+export const registrarStorage = onchainTable("registrar_storage", (t) => ({
+  id: t.text().primaryKey(), // contract address
+  blacklist_version: t.integer().notNull(),
+  whitelist_version: t.integer().notNull(),
+  whitelist_enabled: t.boolean().notNull(),
+}));
+
+// Labels which can't be claimed, only the labelhash is emitted. Rows are kept
+// per list version like on chain, only the registrar_storage version is current
+export const blacklistedLabel = onchainTable("blacklisted_labels", (t) => ({
+  labelhash: t.text().notNull(),
+  version: t.integer().notNull(),
+  updated_at: t.bigint().notNull(),
+}), (table) => ({
+  pk: primaryKey({ columns: [table.version, table.labelhash] }),
+}));
+
+// Addresses allowed to claim while the whitelist is enabled, per list version
+export const whitelistedAddress = onchainTable("whitelisted_addresses", (t) => ({
+  address: t.text().notNull(), // lowercased
+  version: t.integer().notNull(),
+  updated_at: t.bigint().notNull(),
+}), (table) => ({
+  pk: primaryKey({ columns: [table.version, table.address] }),
+}));
+
+// Admin actions - owner changes to pricing, treasuries, roles and gateway settings
+export const adminAction = onchainTable("admin_actions", (t) => ({
+  id: t.text().primaryKey(), // ponder event id, sorts actions in chain order
+  contract: t.text().notNull(), // Registrar, Registry, RegistrarStorage or L1Resolver
+  contract_address: t.text().notNull(),
+  type: t.text().notNull(), // event name ( BasePriceChanged, RegistrarRoleChanged.. )
+  args: t.json().notNull(), // decoded event args, bigints as strings
+  tx_hash: t.text().notNull(),
+  block_number: t.bigint().notNull(),
+  block_timestamp: t.bigint().notNull(),
+  actor: t.text().notNull(), // transaction sender, the contract owner
+}), (table) => ({
+  typeIdx: index().on(table.type),
+  contractIdx: index().on(table.contract),
+}));
+
+// Current registrar configuration, null until the setting is first emitted
+// Prices are in USD cents
+export const registrarConfig = onchainTable("registrar_config", (t) => ({
+  id: t.text().primaryKey(), // registrar address
+  base_price: t.bigint(),
+  self_verified_fee: t.bigint(),
+  min_label_length: t.bigint(),
+  max_label_length: t.bigint(),
+  treasury: t.text(),
+  ens_treasury: t.text(),
+  ens_fee_percent: t.integer(), // basis points, 100 = 1%
+  label_prices_version: t.integer(), // current label_prices version, bumped by clearPrevious
+  updated_at: t.bigint().notNull(),
+}));
+
+// Prices of labels by length, replacing the base price of the registrar.
+// Rows are kept per version, only the registrar_config version is current
+export const labelPrice = onchainTable("label_prices", (t) => ({
+  length: t.bigint().notNull(), // label length
+  version: t.integer().notNull(),
+  price: t.bigint().notNull(), // USD cents
+  updated_at: t.bigint().notNull(),
+}), (table) => ({
+  pk: primaryKey({ columns: [table.version, table.length] }),
+}));
+
+// Accounts allowed to register names on the registry and the registrar storage
+export const registrarRole = onchainTable("registrar_roles", (t) => ({
+  contract: t.text().notNull(), // Registry or RegistrarStorage
+  account: t.text().notNull(), // lowercased
+  updated_at: t.bigint().notNull(),
+}), (table) => ({
+  pk: primaryKey({ columns: [table.contract, table.account] }),
+}));
 
 // Define relationships
-export const namesRelations = relations(name, ({ one }) => ({
+export const namesRelations = relations(name, ({ one, many }) => ({
   records: one(record, { fields: [name.id], references: [record.id] }),
-  registration: one(registration, { fields: [name.id], references: [registration.id] }),
+  registration: one(registration, { fields: [name.registration_id], references: [registration.id] }),
+  registrations: many(registration, { relationName: "registrations" }),
+  renewals: many(renewal),
+  parent: one(name, { fields: [name.parent_id], references: [name.id], relationName: "subnames" }),
+  subnames: many(name, { relationName: "subnames" }),
+  text_records: many(textRecord),
+  address_records: many(addressRecord),
+  events: many(eventLog),
+  primary_names: many(primaryName),
 }));
 
 export const recordsRelations = relations(record, ({ one }) => ({
   name: one(name, { fields: [record.id], references: [name.id] }),
-}));
\ No newline at end of file
+}));
+
+export const registrationsRelations = relations(registration, ({ one, many }) => ({
+  name: one(name, { fields: [registration.node], references: [name.id], relationName: "registrations" }),
+  renewals: many(renewal),
+}));
+
+export const renewalsRelations = relations(renewal, ({ one }) => ({
+  name: one(name, { fields: [renewal.node], references: [name.id] }),
+  registration: one(registration, { fields: [renewal.registration_id], references: [registration.id] }),
+}));
+
+export const textRecordsRelations = relations(textRecord, ({ one }) => ({
+  name: one(name, { fields: [textRecord.node], references: [name.id] }),
+}));
+
+export const addressRecordsRelations = relations(addressRecord, ({ one }) => ({
+  name: one(name, { fields: [addressRecord.node], references: [name.id] }),
+}));
+
+export const eventLogsRelations = relations(eventLog, ({ one }) => ({
+  name: one(name, { fields: [eventLog.node], references: [name.id] }),
+}));
+
+export const primaryNamesRelations = relations(primaryName, ({ one }) => ({
+  name: one(name, { fields: [primaryName.name_id], references: [name.id] }),
+}));
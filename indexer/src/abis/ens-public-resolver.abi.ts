@@ -0,0 +1,8 @@
+import { parseAbi } from "viem";
+
+const ENS_PUBLIC_RESOLVER_ABI = parseAbi([
+  // NameChanged event, emitted when the reverse registrar sets a primary name
+  "event NameChanged(bytes32 indexed node, string name)",
+]);
+
+export default ENS_PUBLIC_RESOLVER_ABI;
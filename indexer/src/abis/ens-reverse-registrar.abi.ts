@@ -0,0 +1,8 @@
+import { parseAbi } from "viem";
+
+const ENS_REVERSE_REGISTRAR_ABI = parseAbi([
+  // ReverseClaimed event, maps the reverse node of an address to the address
+  "event ReverseClaimed(address indexed addr, bytes32 indexed node)",
+]);
+
+export default ENS_REVERSE_REGISTRAR_ABI;
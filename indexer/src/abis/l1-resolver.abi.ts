@@ -0,0 +1,9 @@
+import { parseAbi } from "viem";
+
+const L1_RESOLVER_ABI = parseAbi([
+  // CCIP-Read gateway settings, a new signers list replaces the previous one
+  "event SignerChanged(address[] signers)",
+  "event OffchainUrlsChanged(string[] urls)",
+]);
+
+export default L1_RESOLVER_ABI;
@@ -2,6 +2,16 @@ import { parseAbi } from "viem";
 
 const L2_REGISTRAR = parseAbi([
   "event NameRegistered(string label,bytes32 node,address owner,uint64 durationInYears,address token,uint256 price)",
+  "event NameRenewed(string label,bytes32 node,uint64 durationInYears,address token,uint256 price)",
+
+  // Owner settings of RegistrarRules and RegistrarTreasury, prices in USD cents
+  "event BasePriceChanged(uint256 newBasePrice)",
+  "event LabelPricesChanged(uint256[] lengths, uint256[] prices, bool clearPrevious)",
+  "event LabelLengthLimitsChanged(uint256 newMinLength, uint256 newMaxLength)",
+  "event SelfVerifiedFeeChanged(uint256 newSelfVerifiedFee)",
+  "event TreasuryChanged(address oldTreasury, address newTreasury)",
+  "event EnsTreasuryChanged(address oldEnsTreasury, address newEnsTreasury)",
+  "event EnsFeeChanged(uint16 oldFeePercent, uint16 newFeePercent)",
 ]);
 
 export default L2_REGISTRAR;
\ No newline at end of file
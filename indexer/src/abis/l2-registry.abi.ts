@@ -10,7 +10,15 @@ const L2_REGISTRY_ABI = parseAbi([
 
   'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
 
-  'event NewOwner(bytes32 node, address newOwner)'
+  'event NewOwner(bytes32 node, address newOwner)',
+
+  // Owner settings, registrars are allowed to create names
+  'event RegistrarRoleChanged(address account, bool enabled)',
+
+  'event MetadataUrlUpdated(string metadataUrl)',
+
+  // Full name of a node, used to find the parent of multi-level names
+  'function nameLookup(bytes32 node) view returns (string)'
 ]);
 
 export default L2_REGISTRY_ABI;
\ No newline at end of file
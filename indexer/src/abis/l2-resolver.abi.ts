@@ -12,6 +12,22 @@ const RESOLVER_ABI = parseAbi([
 
   // ContenthashChanged event from ContentHashResolver
   "event ContenthashChanged(bytes32 indexed node, bytes hash)",
+
+  // NameChanged event from NameResolver, set on reverse nodes for primary names
+  "event NameChanged(bytes32 indexed node, string name)",
+
+  // PubkeyChanged event from PubkeyResolver
+  "event PubkeyChanged(bytes32 indexed node, bytes32 x, bytes32 y)",
+
+  // ABIChanged event from ABIResolver, the ABI itself is read from the resolver
+  "event ABIChanged(bytes32 indexed node, uint256 indexed contentType)",
+  "function ABI(bytes32 node, uint256 contentTypes) view returns (uint256, bytes)",
+
+  // InterfaceChanged event from InterfaceResolver
+  "event InterfaceChanged(bytes32 indexed node, bytes4 indexed interfaceID, address implementer)",
+
+  // VersionChanged event from ResolverBase, emitted when all records of a node are cleared
+  "event VersionChanged(bytes32 indexed node, uint64 newVersion)",
 ]);
 
 export default RESOLVER_ABI;
@@ -0,0 +1,20 @@
+import { parseAbi } from "viem";
+
+const REGISTRAR_STORAGE_ABI = parseAbi([
+  // Verification removed by the owner, the address has to verify again
+  "event VerificationDeleted(address user, uint256 verificationId)",
+
+  // Blacklist and whitelist updates, a new version clears the previous entries
+  "event BlacklistChanged(bytes32[] labels, bool enabled, uint8 version)",
+  "event WhitelistEntriesUpdated(address[] users, bool enabled, uint8 version)",
+  "event WhitelistChanged(bool enabled)",
+
+  // Registrars allowed to update claim counts and verifications
+  "event RegistrarRoleChanged(address account, bool enabled)",
+
+  // Claims counted for a verified address, called by the self registrar
+  // without an event, indexed from call traces
+  "function claim(address user, bytes32 namehash)",
+]);
+
+export default REGISTRAR_STORAGE_ABI;
@@ -0,0 +1,137 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import { Hono } from "hono";
+import { createMiddleware } from "hono/factory";
+import { graphql } from "ponder";
+import {
+  DocumentNode,
+  ExecutionResult,
+  GraphQLFieldResolver,
+  GraphQLObjectType,
+  GraphQLSchema,
+  IntrospectionQuery,
+  TypeInfo,
+  buildClientSchema,
+  execute,
+  extendSchema,
+  getIntrospectionQuery,
+  parse,
+  print,
+  validate,
+  visit,
+  visitWithTypeInfo,
+} from "graphql";
+import { NAME_STATUSES, getNameStatus, nowSeconds } from "./name-status";
+
+interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+type Source = Record<string, unknown>;
+type Resolver = GraphQLFieldResolver<Source, { now: bigint }>;
+
+// Fields of names derived from the expiry, the ponder schema only has stored columns
+const STATUS_FIELDS = ["status", "is_expired"];
+
+const STATUS_TYPE_DEFS = `
+  enum NameStatus { ${NAME_STATUSES.join(" ")} }
+
+  extend type name {
+    status: NameStatus!
+    is_expired: Boolean!
+  }
+`;
+
+// Fields are read by response key, the data comes from the ponder response
+const readResponseKey: Resolver = (source, _args, _context, info) =>
+  source[info.path.key];
+
+const readStatus: Resolver = (source, _args, { now }, info) =>
+  getNameStatus(BigInt(source[info.path.key] as string), now);
+
+// Requests the expiry of names under the response key of their status fields
+const selectExpiry = (statusSchema: GraphQLSchema, document: DocumentNode) => {
+  const typeInfo = new TypeInfo(statusSchema);
+  return visit(document, visitWithTypeInfo(typeInfo, {
+    Field(node) {
+      if (typeInfo.getParentType()?.name !== "name" || !STATUS_FIELDS.includes(node.name.value)) {
+        return undefined;
+      }
+      return { ...node, alias: node.alias ?? node.name, name: { ...node.name, value: "expiry" } };
+    },
+  }));
+};
+
+// GraphQL of ponder with the status of names, queries are validated against
+// the extended schema, sent to ponder with the expiry in place of the status
+// fields and executed again on the response to resolve them
+export const graphqlWithStatus = () => {
+  const ponder = new Hono().use(graphql({ db, schema }));
+  let statusSchema: Promise<GraphQLSchema> | undefined;
+
+  const request = async (body: GraphQLRequest) => {
+    const response = await ponder.request("/", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return await response.json() as ExecutionResult;
+  };
+
+  const getStatusSchema = () => {
+    statusSchema ??= request({ query: getIntrospectionQuery() }).then(({ data }) => {
+      const introspection = data as unknown as IntrospectionQuery;
+      const extended = extendSchema(buildClientSchema(introspection), parse(STATUS_TYPE_DEFS));
+
+      const fields = (extended.getType("name") as GraphQLObjectType).getFields();
+      fields.status!.resolve = readStatus;
+      fields.is_expired!.resolve = (...args) => readStatus(...args) !== "active";
+      return extended;
+    });
+    return statusSchema;
+  };
+
+  return createMiddleware(async (c) => {
+    if (c.req.method !== "POST") {
+      return ponder.fetch(c.req.raw);
+    }
+    const body = await c.req.raw.clone().json().catch(() => undefined) as GraphQLRequest | undefined;
+    if (typeof body?.query !== "string") {
+      return ponder.fetch(c.req.raw);
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(body.query);
+    } catch {
+      return ponder.fetch(c.req.raw);
+    }
+
+    const extended = await getStatusSchema();
+    const errors = validate(extended, document);
+    if (errors.length) {
+      return c.json({ errors });
+    }
+
+    // Queries without status fields are sent as is, keeping the error locations
+    const forwarded = selectExpiry(extended, document);
+    const query = forwarded === document ? body.query : print(forwarded);
+    const response = await request({ ...body, query });
+    if (!response.data) {
+      return c.json(response);
+    }
+
+    const result = await execute({
+      schema: extended,
+      document,
+      rootValue: response.data,
+      contextValue: { now: nowSeconds() },
+      variableValues: body.variables,
+      operationName: body.operationName,
+      fieldResolver: readResponseKey,
+    });
+    return c.json({ data: result.data, errors: response.errors ?? result.errors });
+  });
+};
@@ -0,0 +1,33 @@
+import type { Context, ErrorHandler } from "hono";
+import { replaceBigInts } from "ponder";
+
+export class BadRequestError extends Error {}
+
+// Ponder returns uint256 columns as bigints which JSON.stringify can't handle
+export const jsonResponse = (
+  c: Context,
+  body: object,
+  status: 200 | 400 | 404 = 200
+) => c.json(replaceBigInts(body, (value) => String(value)), status);
+
+export const handleErrors: ErrorHandler = (err, c) => {
+  if (err instanceof BadRequestError) {
+    return jsonResponse(c, { message: err.message }, 400);
+  }
+  throw err;
+};
+
+// Unix timestamp query parameter, in seconds
+export const parseTimestamp = (
+  c: Context,
+  param: string
+): bigint | undefined => {
+  const value = c.req.query(param);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new BadRequestError(`${param} must be a unix timestamp`);
+  }
+  return BigInt(value);
+};
@@ -1,8 +1,9 @@
-import { db } from "ponder:api";
-import schema from "ponder:schema";
 import { Hono } from "hono";
-import { client, graphql } from "ponder";
+import { client } from "ponder";
 import { cors } from "hono/cors";
+import { graphqlWithStatus } from "./graphql";
+import rest from "./rest";
+import stats from "./stats";
 
 const app = new Hono();
 
@@ -13,7 +14,10 @@ app.use("*", cors(
     }
 ));
 
-app.use("/", graphql({ db, schema }));
-app.use("/graphql", graphql({ db, schema }));
+const graphql = graphqlWithStatus();
+app.use("/", graphql);
+app.use("/graphql", graphql);
+app.route("/", rest);
+app.route("/stats", stats);
 
 export default app;
@@ -0,0 +1,42 @@
+import { and, gt, lte } from "ponder";
+import { name } from "ponder:schema";
+import { getEnvironment } from "../env";
+
+const env = getEnvironment();
+
+export const NAME_STATUSES = ["active", "grace", "expired"] as const;
+export type NameStatus = (typeof NAME_STATUSES)[number];
+
+export const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000));
+
+// Names expire without an event, their status is derived from the expiry when read
+// active -> grace ( GRACE_PERIOD after expiry ) -> expired
+export const getNameStatus = (
+  expiry: bigint,
+  now = nowSeconds()
+): NameStatus => {
+  if (expiry > now) {
+    return "active";
+  }
+  if (expiry > now - env.grace_period) {
+    return "grace";
+  }
+  return "expired";
+};
+
+export const withStatus = <T extends { expiry: bigint }>(row: T) => {
+  const status = getNameStatus(row.expiry);
+  return { ...row, status, is_expired: status !== "active" };
+};
+
+// Filter on the expiry of names having `status` now
+export const statusFilter = (status: NameStatus, now = nowSeconds()) => {
+  const graceEnd = now - env.grace_period;
+  if (status === "active") {
+    return gt(name.expiry, now);
+  }
+  if (status === "grace") {
+    return and(lte(name.expiry, now), gt(name.expiry, graceEnd));
+  }
+  return lte(name.expiry, graceEnd);
+};
@@ -0,0 +1,242 @@
+import { db } from "ponder:api";
+import {
+  labelPrice,
+  name,
+  primaryName,
+  registrarConfig,
+  registrarRole,
+  registrarStorage,
+  verifiedAddress,
+  whitelistedAddress,
+} from "ponder:schema";
+import { Hono, type Context } from "hono";
+import { and, asc, eq, gt, like, lt } from "ponder";
+import { isAddress, isHex, namehash, size } from "viem";
+import { CONTRACTS } from "../contracts";
+import {
+  BadRequestError,
+  handleErrors,
+  jsonResponse,
+  parseTimestamp,
+} from "./http";
+import {
+  NAME_STATUSES,
+  statusFilter,
+  withStatus,
+  type NameStatus,
+} from "./name-status";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+type Filter = Parameters<typeof and>[number];
+
+const parseLimit = (limit?: string): number => {
+  if (limit === undefined) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  const parsed = Number(limit);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_PAGE_SIZE) {
+    throw new BadRequestError(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  return parsed;
+};
+
+// Cursors are the node of the last name of the previous page
+const parseCursor = (cursor?: string): string | undefined => {
+  if (cursor !== undefined && (!isHex(cursor) || size(cursor) !== 32)) {
+    throw new BadRequestError("Invalid cursor");
+  }
+  return cursor?.toLowerCase();
+};
+
+const parseStatus = (c: Context): NameStatus | undefined => {
+  const status = c.req.query("status");
+  if (status === undefined) {
+    return undefined;
+  }
+  if (!NAME_STATUSES.includes(status as NameStatus)) {
+    throw new BadRequestError(`status must be one of ${NAME_STATUSES.join(", ")}`);
+  }
+  return status as NameStatus;
+};
+
+// Names are paginated in node order, which is stable while new names are indexed
+const findNamesPage = async (c: Context, filters: Filter[]) => {
+  const limit = parseLimit(c.req.query("limit"));
+  const cursor = parseCursor(c.req.query("cursor"));
+  const status = parseStatus(c);
+
+  const items = await db
+    .select()
+    .from(name)
+    .where(
+      and(
+        ...filters,
+        status ? statusFilter(status) : undefined,
+        cursor ? gt(name.id, cursor) : undefined
+      )
+    )
+    .orderBy(asc(name.id))
+    .limit(limit + 1);
+
+  const hasNextPage = items.length > limit;
+  const page = items.slice(0, limit);
+  return {
+    items: page.map(withStatus),
+    next_cursor: hasNextPage ? page[page.length - 1]!.id : null,
+  };
+};
+
+const findName = (fullName: string) =>
+  db.query.name.findFirst({
+    where: eq(name.id, namehash(fullName.toLowerCase())),
+    with: { records: true, registration: true },
+  });
+
+// `%` and `_` are wildcards in LIKE patterns
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+const rest = new Hono();
+
+rest.onError(handleErrors);
+
+rest.get("/names", async (c) => {
+  const labelPrefix = c.req.query("label_prefix");
+  const expiringBefore = parseTimestamp(c, "expiring_before");
+
+  const page = await findNamesPage(c, [
+    labelPrefix
+      ? like(name.label, `${escapeLike(labelPrefix.toLowerCase())}%`)
+      : undefined,
+    expiringBefore !== undefined ? lt(name.expiry, expiringBefore) : undefined,
+  ]);
+  return jsonResponse(c, page);
+});
+
+rest.get("/names/:name", async (c) => {
+  const found = await findName(c.req.param("name"));
+  if (!found) {
+    return jsonResponse(c, { message: "Name not found" }, 404);
+  }
+  return jsonResponse(c, withStatus(found));
+});
+
+rest.get("/names/:name/records", async (c) => {
+  const found = await findName(c.req.param("name"));
+  if (!found) {
+    return jsonResponse(c, { message: "Name not found" }, 404);
+  }
+  return jsonResponse(c, {
+    id: found.id,
+    addresses: found.records?.addresses ?? [],
+    texts: found.records?.texts ?? [],
+    contenthash: found.records?.contenthash ?? null,
+    pubkey: found.records?.pubkey ?? null,
+    abis: found.records?.abis ?? [],
+    interfaces: found.records?.interfaces ?? [],
+    name_record: found.records?.name_record ?? null,
+  });
+});
+
+const parseAddress = (c: Context): string => {
+  const address = c.req.param("address");
+  if (!address || !isAddress(address, { strict: false })) {
+    throw new BadRequestError("Invalid address");
+  }
+  // addresses are stored lowercased
+  return address.toLowerCase();
+};
+
+rest.get("/addresses/:address/names", async (c) => {
+  const address = parseAddress(c);
+
+  const page = await findNamesPage(c, [eq(name.owner, address)]);
+  return jsonResponse(c, page);
+});
+
+// Primary names of an address on every indexed chain, read by the gateway
+// to answer reverse resolution requests
+rest.get("/addresses/:address/primary-names", async (c) => {
+  const address = parseAddress(c);
+
+  const rows = await db
+    .select()
+    .from(primaryName)
+    .where(eq(primaryName.address, address))
+    .orderBy(asc(primaryName.chain));
+
+  return jsonResponse(c, {
+    address,
+    primary_names: rows.map(({ chain, full_name, name_id, updated_at }) => ({
+      chain,
+      full_name,
+      name_id,
+      updated_at,
+    })),
+  });
+});
+
+// Everything the self registrar checks before a claim
+rest.get("/addresses/:address/verification", async (c) => {
+  const address = parseAddress(c);
+
+  const [verified, settings] = await Promise.all([
+    db.query.verifiedAddress.findFirst({
+      where: eq(verifiedAddress.id, address),
+    }),
+    db.query.registrarStorage.findFirst({
+      where: eq(registrarStorage.id, CONTRACTS.REGISTRAR_STORAGE.toLowerCase()),
+    }),
+  ]);
+  // only entries of the current whitelist version are checked on chain
+  const whitelisted = await db.query.whitelistedAddress.findFirst({
+    where: and(
+      eq(whitelistedAddress.address, address),
+      eq(whitelistedAddress.version, settings?.whitelist_version ?? 0)
+    ),
+  });
+
+  return jsonResponse(c, {
+    address,
+    is_verified: verified?.is_verified ?? false,
+    verification_id: verified?.verification_id ?? null,
+    verified_at: verified?.verified_at ?? null,
+    claim_count: verified?.claim_count ?? 0,
+    is_whitelisted: !settings?.whitelist_enabled || Boolean(whitelisted),
+  });
+});
+
+// Current pricing and roles, built from the admin_actions events
+rest.get("/registrar/config", async (c) => {
+  const config = await db.query.registrarConfig.findFirst({
+    where: eq(registrarConfig.id, CONTRACTS.L2_REGISTRAR.toLowerCase()),
+  });
+  const [prices, roles] = await Promise.all([
+    db
+      .select()
+      .from(labelPrice)
+      .where(eq(labelPrice.version, config?.label_prices_version ?? 0))
+      .orderBy(asc(labelPrice.length)),
+    db
+      .select()
+      .from(registrarRole)
+      .orderBy(asc(registrarRole.contract), asc(registrarRole.account)),
+  ]);
+
+  return jsonResponse(c, {
+    address: CONTRACTS.L2_REGISTRAR.toLowerCase(),
+    base_price: config?.base_price ?? null,
+    label_prices: prices.map(({ length, price }) => ({ length, price })),
+    self_verified_fee: config?.self_verified_fee ?? null,
+    min_label_length: config?.min_label_length ?? null,
+    max_label_length: config?.max_label_length ?? null,
+    treasury: config?.treasury ?? null,
+    ens_treasury: config?.ens_treasury ?? null,
+    ens_fee_percent: config?.ens_fee_percent ?? null,
+    updated_at: config?.updated_at ?? null,
+    registrars: roles.map(({ contract, account }) => ({ contract, account })),
+  });
+});
+
+export default rest;
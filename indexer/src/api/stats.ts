@@ -0,0 +1,188 @@
+import { db } from "ponder:api";
+import { name, registration, renewal } from "ponder:schema";
+import { Hono } from "hono";
+import {
+  and,
+  count,
+  countDistinct,
+  eq,
+  gte,
+  lt,
+  sql,
+  sum,
+} from "ponder";
+import { Address, formatUnits, parseUnits } from "viem";
+import { getEnvironment } from "../env";
+import {
+  BadRequestError,
+  handleErrors,
+  jsonResponse,
+  parseTimestamp,
+} from "./http";
+
+const { stablecoins } = getEnvironment().deployment;
+
+// USD totals are summed with the precision of the most precise stablecoin
+const USD_DECIMALS = 18;
+
+type TimestampColumn =
+  | typeof registration.block_timestamp
+  | typeof renewal.block_timestamp;
+
+// `from` is inclusive and `to` exclusive, both unix timestamps
+const inRange = (column: TimestampColumn, from?: bigint, to?: bigint) =>
+  and(
+    from !== undefined ? gte(column, from) : undefined,
+    to !== undefined ? lt(column, to) : undefined
+  );
+
+const utcDate = (format: "YYYY-MM-DD" | "YYYY-MM") =>
+  sql<string>`to_char(to_timestamp(${registration.block_timestamp}::double precision) at time zone 'UTC', ${sql.raw(`'${format}'`)})`;
+
+const selfClaims = sql<number>`count(*) filter (where ${registration.is_self_claim})`
+  .mapWith(Number);
+
+const registrationsPer = (
+  format: "YYYY-MM-DD" | "YYYY-MM",
+  from?: bigint,
+  to?: bigint
+) => {
+  const period = utcDate(format);
+  return db
+    .select({
+      period,
+      registrations: count(),
+      self_claims: selfClaims,
+    })
+    .from(registration)
+    .where(inRange(registration.block_timestamp, from, to))
+    .groupBy(period)
+    .orderBy(period);
+};
+
+const revenuePerToken = async (from?: bigint, to?: bigint) => {
+  const [registrations, renewals] = await Promise.all([
+    db
+      .select({
+        token: registration.payment_token,
+        count: count(),
+        total: sum(registration.price_wei),
+      })
+      .from(registration)
+      .where(
+        and(
+          eq(registration.is_self_claim, false),
+          inRange(registration.block_timestamp, from, to)
+        )
+      )
+      .groupBy(registration.payment_token),
+    db
+      .select({
+        token: renewal.payment_token,
+        count: count(),
+        total: sum(renewal.price_wei),
+      })
+      .from(renewal)
+      .where(inRange(renewal.block_timestamp, from, to))
+      .groupBy(renewal.payment_token),
+  ]);
+
+  const tokens = new Set([...registrations, ...renewals].map((row) => row.token));
+  return [...tokens].map((token) => {
+    const registered = registrations.find((row) => row.token === token);
+    const renewed = renewals.find((row) => row.token === token);
+    const stablecoin = stablecoins[token as Address];
+
+    const registrationsWei = BigInt(registered?.total ?? 0);
+    const renewalsWei = BigInt(renewed?.total ?? 0);
+    const totalWei = registrationsWei + renewalsWei;
+
+    return {
+      token,
+      symbol: stablecoin?.symbol ?? null,
+      registrations: registered?.count ?? 0,
+      renewals: renewed?.count ?? 0,
+      registrations_wei: registrationsWei,
+      renewals_wei: renewalsWei,
+      total_wei: totalWei,
+      total_usd: stablecoin ? formatUnits(totalWei, stablecoin.decimals) : null,
+    };
+  });
+};
+
+const labelLength = sql<number>`char_length(${name.label})`.mapWith(Number);
+
+// Revoked names are deleted from the names table and don't count
+const labelLengths = (from?: bigint, to?: bigint) =>
+  db
+    .select({ length: labelLength, registrations: count() })
+    .from(registration)
+    .innerJoin(name, eq(registration.node, name.id))
+    .where(inRange(registration.block_timestamp, from, to))
+    .groupBy(labelLength)
+    .orderBy(labelLength);
+
+// Registrations made in the range which were renewed at least once since
+const renewedRegistrations = async (from?: bigint, to?: bigint) => {
+  const [row] = await db
+    .select({ renewed: countDistinct(renewal.registration_id) })
+    .from(renewal)
+    .innerJoin(registration, eq(renewal.registration_id, registration.id))
+    .where(inRange(registration.block_timestamp, from, to));
+  return row?.renewed ?? 0;
+};
+
+const ratio = (part: number, total: number) => (total ? part / total : null);
+
+const stats = new Hono();
+
+stats.onError(handleErrors);
+
+stats.get("/", async (c) => {
+  const from = parseTimestamp(c, "from");
+  const to = parseTimestamp(c, "to");
+  if (from !== undefined && to !== undefined && from >= to) {
+    throw new BadRequestError("from must be before to");
+  }
+
+  const [daily, monthly, revenue, lengths, renewed] = await Promise.all([
+    registrationsPer("YYYY-MM-DD", from, to),
+    registrationsPer("YYYY-MM", from, to),
+    revenuePerToken(from, to),
+    labelLengths(from, to),
+    renewedRegistrations(from, to),
+  ]);
+
+  const total = monthly.reduce((acc, row) => acc + row.registrations, 0);
+  const totalSelfClaims = monthly.reduce((acc, row) => acc + row.self_claims, 0);
+  const totalUsd = revenue.reduce(
+    (acc, row) =>
+      row.total_usd === null ? acc : acc + parseUnits(row.total_usd, USD_DECIMALS),
+    0n
+  );
+
+  return jsonResponse(c, {
+    from: from ?? null,
+    to: to ?? null,
+    registrations: {
+      total,
+      paid: total - totalSelfClaims,
+      self_claims: totalSelfClaims,
+      self_claim_ratio: ratio(totalSelfClaims, total),
+      daily: daily.map(({ period, ...row }) => ({ date: period, ...row })),
+      monthly: monthly.map(({ period, ...row }) => ({ month: period, ...row })),
+    },
+    revenue: {
+      total_usd: formatUnits(totalUsd, USD_DECIMALS),
+      tokens: revenue,
+    },
+    renewals: {
+      total: revenue.reduce((acc, row) => acc + row.renewals, 0),
+      renewed_registrations: renewed,
+      renewal_rate: ratio(renewed, total),
+    },
+    label_lengths: lengths,
+  });
+});
+
+export default stats;
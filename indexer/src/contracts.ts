@@ -1,9 +1,4 @@
-import { Address } from "viem";
+import { getEnvironment } from "./env";
 
-type ContractName = "L2_REGISTRY" | "L2_REGISTRAR" | "L2_SELF_REGISTRAR"
-
-export const CONTRACTS: Record<ContractName,Address> = {
-    L2_REGISTRY: "0x4d7912779679AFdC592CBd4674b32Fcb189395F7",
-    L2_REGISTRAR: "0x9Eb22700eFa1558eb2e0E522eB1DECC8025C3127",
-    L2_SELF_REGISTRAR: "0x063E9F0bA0061F6C3c6169674c81f43BE21fe8cc",
-}
\ No newline at end of file
+// Addresses of the selected deployment, see src/deployments.ts
+export const CONTRACTS = getEnvironment().deployment.contracts
@@ -0,0 +1,98 @@
+import { Address } from "viem";
+import { celo, celoSepolia } from "viem/chains";
+
+export type DeploymentName = "celo" | "celo-sepolia" | "local"
+
+export const L2_CONTRACTS = [
+    "L2_REGISTRY",
+    "L2_REGISTRAR",
+    "L2_SELF_REGISTRAR",
+    "REGISTRAR_STORAGE",
+] as const
+
+export type L2ContractName = typeof L2_CONTRACTS[number]
+
+export type EthereumContractName =
+    | "ENS_REVERSE_REGISTRAR"
+    | "ENS_PUBLIC_RESOLVER"
+    | "L1_RESOLVER"
+
+export interface Stablecoin {
+    symbol: string
+    decimals: number
+}
+
+export interface DeploymentProfile {
+    chain_id: number
+    rpc_url: string // used when RPC_URL is not set
+    root_name: string // used when ROOT_NAME is not set
+    // addresses missing from a profile are read from <CONTRACT>_ADDRESS, e.g. L2_REGISTRY_ADDRESS
+    contracts: Partial<Record<L2ContractName, Address>>
+    // START_BLOCK overrides all of them, it is required by profiles without start blocks
+    start_blocks?: Record<L2ContractName, number>
+    // Stablecoins accepted by the registrar, keyed by lowercased address as stored
+    // by ponder. Payments in these tokens count 1:1 as USD in /stats
+    stablecoins: Record<Address, Stablecoin>
+    disable_cache: boolean // local chains are reset between runs, their RPC responses can't be cached
+    // Ethereum mainnet contracts of the deployment, indexed when ETH_RPC_URL is set
+    ethereum?: Record<EthereumContractName, Address>
+}
+
+// Profile after the env overrides, every contract has an address
+export interface Deployment extends DeploymentProfile {
+    name: DeploymentName
+    contracts: Record<L2ContractName, Address>
+    start_blocks: Record<L2ContractName, number>
+}
+
+export const DEPLOYMENTS: Record<DeploymentName, DeploymentProfile> = {
+    celo: {
+        chain_id: celo.id,
+        rpc_url: celo.rpcUrls.default.http[0],
+        root_name: "celo.eth",
+        contracts: {
+            L2_REGISTRY: "0x4d7912779679AFdC592CBd4674b32Fcb189395F7",
+            L2_REGISTRAR: "0x9Eb22700eFa1558eb2e0E522eB1DECC8025C3127",
+            L2_SELF_REGISTRAR: "0x063E9F0bA0061F6C3c6169674c81f43BE21fe8cc",
+            REGISTRAR_STORAGE: "0xaAF67A46b99bE9a183580Cd86236cd0c6f2a85cb",
+        },
+        start_blocks: {
+            L2_REGISTRY: 46660369,
+            L2_REGISTRAR: 46660369,
+            L2_SELF_REGISTRAR: 48572249,
+            REGISTRAR_STORAGE: 46660369,
+        },
+        stablecoins: {
+            "0xceba9300f2b948710d2653dd7b07f33a8b32118c": { symbol: "USDC", decimals: 6 },
+            "0x48065fbbe25f71c9282ddf5e1cd6d6a887483d5e": { symbol: "USDT", decimals: 6 },
+            "0x765de816845861e75a25fca122bb6898b8b1282a": { symbol: "cUSD", decimals: 18 },
+        },
+        disable_cache: false,
+        ethereum: {
+            // primary names set through the ENS app
+            ENS_REVERSE_REGISTRAR: "0xa58E81fe9b61B5c3fE2AFD33CF304c454AbFc7Cb",
+            ENS_PUBLIC_RESOLVER: "0x231b0Ee14048e9dCcD1d247744d114a4EB5E8E63",
+            L1_RESOLVER: "0xC6FC912C5DACb6BF0a24Bad113493c900fEA254a",
+        },
+    },
+    // Testnet deployments are redeployed before mainnet releases,
+    // addresses and START_BLOCK come from the env
+    "celo-sepolia": {
+        chain_id: celoSepolia.id,
+        rpc_url: celoSepolia.rpcUrls.default.http[0],
+        root_name: "celo.eth",
+        contracts: {},
+        stablecoins: {},
+        disable_cache: false,
+    },
+    // Hardhat node of the contracts package ( npm run node ),
+    // addresses and START_BLOCK come from the env
+    local: {
+        chain_id: 1337,
+        rpc_url: "http://127.0.0.1:8545",
+        root_name: "celo.eth",
+        contracts: {},
+        stablecoins: {},
+        disable_cache: true,
+    },
+}
@@ -1,28 +1,97 @@
+import { Address, isAddress } from "viem";
+import {
+    DEPLOYMENTS,
+    Deployment,
+    DeploymentName,
+    L2_CONTRACTS,
+    L2ContractName,
+} from "./deployments";
+
 export interface IndexerEnv {
+    deployment: Deployment
     root_name: string
-    rpc_url?: string
+    rpc_url: string
     app_port: number
     db_connection_string?: string
     db_type: "pglite" | "postgres"
+    grace_period: bigint // seconds after expiry a name is shown as in grace
+    eth_rpc_url?: string // enables indexing of ENS primary names on Ethereum mainnet
+    eth_start_block: number
+}
+
+// Contracts of the selected profile, overridden by <CONTRACT>_ADDRESS
+// and START_BLOCK for redeployed testnet and local contracts
+const getDeployment = (): Deployment => {
+    const name = process.env.DEPLOYMENT || "celo";
+    const start_block = process.env.START_BLOCK;
+
+    if (!Object.keys(DEPLOYMENTS).includes(name)) {
+        throw new Error(`DEPLOYMENT must be one of ${Object.keys(DEPLOYMENTS).join(", ")}`);
+    }
+    const profile = DEPLOYMENTS[name as DeploymentName];
+
+    if (!start_block && !profile.start_blocks) {
+        throw new Error(`START_BLOCK is required for the ${name} deployment`);
+    }
+    if (start_block && !/^\d+$/.test(start_block)) {
+        throw new Error("START_BLOCK must be a block number");
+    }
+
+    const contracts = {} as Record<L2ContractName, Address>;
+    const start_blocks = { ...profile.start_blocks } as Record<L2ContractName, number>;
+    for (const contract of L2_CONTRACTS) {
+        const variable = `${contract}_ADDRESS`;
+        const address = process.env[variable] || profile.contracts[contract];
+
+        if (!address) {
+            throw new Error(`${variable} is required for the ${name} deployment`);
+        }
+        if (!isAddress(address, { strict: false })) {
+            throw new Error(`${variable} must be an address`);
+        }
+
+        contracts[contract] = address;
+        if (start_block) {
+            start_blocks[contract] = Number(start_block);
+        }
+    }
+
+    return { ...profile, name: name as DeploymentName, contracts, start_blocks };
 }
 
 export const getEnvironment = (): IndexerEnv => {
-    const root_name = process.env.ROOT_NAME;
-    const rpc_url = process.env.RPC_URL;
+    const deployment = getDeployment();
+    const root_name = process.env.ROOT_NAME || deployment.root_name;
+    const rpc_url = process.env.RPC_URL || deployment.rpc_url;
     const app_port = Number(process.env.APP_PORT || 3000);
     const db_type = process.env.DB_TYPE || "pglite";
     const db_conn_string = process.env.DB_CONNECTION_STRING
+    const grace_period = process.env.GRACE_PERIOD || "0";
+    const eth_rpc_url = process.env.ETH_RPC_URL;
+    const eth_start_block = Number(process.env.ETH_START_BLOCK || 0);
 
-    if (!root_name) {
-        throw new Error("ROOT_NAME is required");
+    if (!/^\d+$/.test(grace_period)) {
+        throw new Error("GRACE_PERIOD must be a number of seconds");
+    }
+
+    if (eth_rpc_url && !deployment.ethereum) {
+        throw new Error(`ETH_RPC_URL is not supported by the ${deployment.name} deployment`);
+    }
+
+    if (eth_rpc_url && !eth_start_block) {
+        throw new Error("ETH_START_BLOCK is required when ETH_RPC_URL is set");
     }
 
 
     return {
+        deployment,
         root_name,
         rpc_url: rpc_url,
         app_port: app_port,
         db_type: db_type as "postgres" | "pglite",
-        db_connection_string: db_conn_string
+        db_connection_string: db_conn_string,
+        grace_period: BigInt(grace_period),
+        eth_rpc_url: eth_rpc_url,
+        eth_start_block: eth_start_block
     }
-}
\ No newline at end of file
+}
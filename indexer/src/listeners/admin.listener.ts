@@ -0,0 +1,209 @@
+import { replaceBigInts } from "ponder";
+import { ponder, type Context } from "ponder:registry";
+import {
+  adminAction,
+  labelPrice,
+  registrarConfig,
+  registrarRole,
+} from "ponder:schema";
+import { Address, Hash } from "viem";
+import { getEnvironment } from "../env";
+
+const env = getEnvironment();
+
+type AdminContract = "Registrar" | "Registry" | "RegistrarStorage" | "L1Resolver";
+
+type RegistrarSettings = Partial<
+  Omit<typeof registrarConfig.$inferInsert, "id" | "updated_at">
+>;
+
+// Parts of a ponder log event stored in the admin_actions table
+interface AdminEvent {
+  id: string;
+  args: object;
+  log: { address: Address };
+  block: { number: bigint; timestamp: bigint };
+  transaction: { hash: Hash; from: Address };
+}
+
+export class AdminListener {
+  public async listenOnAdminEvents() {
+    this.handleBasePriceChanged();
+    this.handleLabelPricesChanged();
+    this.handleLabelLengthLimitsChanged();
+    this.handleSelfVerifiedFeeChanged();
+    this.handleTreasuryChanged();
+    this.handleEnsTreasuryChanged();
+    this.handleEnsFeeChanged();
+    this.handleRegistrarRoleChanged("Registry");
+    this.handleRegistrarRoleChanged("RegistrarStorage");
+    this.handleMetadataUrlUpdated();
+
+    if (env.eth_rpc_url) {
+      this.handleSignerChanged();
+      this.handleOffchainUrlsChanged();
+    }
+  }
+
+  private async handleBasePriceChanged() {
+    ponder.on("Registrar:BasePriceChanged", async ({ context, event }) => {
+      const { newBasePrice } = event.args;
+      await this.logAction(context, "Registrar", "BasePriceChanged", event);
+
+      await this.updateRegistrarConfig(context, event, { base_price: newBasePrice });
+    });
+  }
+
+  private async handleLabelPricesChanged() {
+    ponder.on("Registrar:LabelPricesChanged", async ({ context, event }) => {
+      const { lengths, prices, clearPrevious } = event.args;
+      const { db } = context;
+      await this.logAction(context, "Registrar", "LabelPricesChanged", event);
+
+      // prices of the previous version no longer apply on chain,
+      // their rows are kept like the registrar does
+      const config = await db.find(registrarConfig, {
+        id: event.log.address.toLowerCase(),
+      });
+      const current = config?.label_prices_version ?? 0;
+      const version = clearPrevious ? current + 1 : current;
+      await this.updateRegistrarConfig(context, event, {
+        label_prices_version: version,
+      });
+
+      for (const [i, length] of lengths.entries()) {
+        await db
+          .insert(labelPrice)
+          .values({ length, version, price: prices[i]!, updated_at: event.block.timestamp })
+          .onConflictDoUpdate({ price: prices[i]!, updated_at: event.block.timestamp });
+      }
+    });
+  }
+
+  private async handleLabelLengthLimitsChanged() {
+    ponder.on("Registrar:LabelLengthLimitsChanged", async ({ context, event }) => {
+      const { newMinLength, newMaxLength } = event.args;
+      await this.logAction(context, "Registrar", "LabelLengthLimitsChanged", event);
+
+      await this.updateRegistrarConfig(context, event, {
+        min_label_length: newMinLength,
+        max_label_length: newMaxLength,
+      });
+    });
+  }
+
+  private async handleSelfVerifiedFeeChanged() {
+    ponder.on("Registrar:SelfVerifiedFeeChanged", async ({ context, event }) => {
+      const { newSelfVerifiedFee } = event.args;
+      await this.logAction(context, "Registrar", "SelfVerifiedFeeChanged", event);
+
+      await this.updateRegistrarConfig(context, event, {
+        self_verified_fee: newSelfVerifiedFee,
+      });
+    });
+  }
+
+  private async handleTreasuryChanged() {
+    ponder.on("Registrar:TreasuryChanged", async ({ context, event }) => {
+      const { newTreasury } = event.args;
+      await this.logAction(context, "Registrar", "TreasuryChanged", event);
+
+      await this.updateRegistrarConfig(context, event, {
+        treasury: newTreasury.toLowerCase(),
+      });
+    });
+  }
+
+  private async handleEnsTreasuryChanged() {
+    ponder.on("Registrar:EnsTreasuryChanged", async ({ context, event }) => {
+      const { newEnsTreasury } = event.args;
+      await this.logAction(context, "Registrar", "EnsTreasuryChanged", event);
+
+      await this.updateRegistrarConfig(context, event, {
+        ens_treasury: newEnsTreasury.toLowerCase(),
+      });
+    });
+  }
+
+  private async handleEnsFeeChanged() {
+    ponder.on("Registrar:EnsFeeChanged", async ({ context, event }) => {
+      const { newFeePercent } = event.args;
+      await this.logAction(context, "Registrar", "EnsFeeChanged", event);
+
+      await this.updateRegistrarConfig(context, event, {
+        ens_fee_percent: newFeePercent,
+      });
+    });
+  }
+
+  // Both the registry and the registrar storage restrict writes to registrars
+  private async handleRegistrarRoleChanged(contract: "Registry" | "RegistrarStorage") {
+    ponder.on(`${contract}:RegistrarRoleChanged`, async ({ context, event }) => {
+      const { account, enabled } = event.args;
+      const { db } = context;
+      await this.logAction(context, contract, "RegistrarRoleChanged", event);
+
+      const role = { contract, account: account.toLowerCase() };
+      if (enabled) {
+        await db
+          .insert(registrarRole)
+          .values({ ...role, updated_at: event.block.timestamp })
+          .onConflictDoUpdate({ updated_at: event.block.timestamp });
+      } else {
+        await db.delete(registrarRole, role);
+      }
+    });
+  }
+
+  private async handleMetadataUrlUpdated() {
+    ponder.on("Registry:MetadataUrlUpdated", async ({ context, event }) => {
+      await this.logAction(context, "Registry", "MetadataUrlUpdated", event);
+    });
+  }
+
+  private async handleSignerChanged() {
+    ponder.on("L1Resolver:SignerChanged", async ({ context, event }) => {
+      await this.logAction(context, "L1Resolver", "SignerChanged", event);
+    });
+  }
+
+  private async handleOffchainUrlsChanged() {
+    ponder.on("L1Resolver:OffchainUrlsChanged", async ({ context, event }) => {
+      await this.logAction(context, "L1Resolver", "OffchainUrlsChanged", event);
+    });
+  }
+
+  private async logAction(
+    context: Context,
+    contract: AdminContract,
+    type: string,
+    event: AdminEvent
+  ) {
+    await context.db.insert(adminAction).values({
+      id: event.id,
+      contract,
+      contract_address: event.log.address.toLowerCase(),
+      type,
+      args: replaceBigInts(event.args, (value) => String(value)),
+      tx_hash: event.transaction.hash,
+      block_number: event.block.number,
+      block_timestamp: event.block.timestamp,
+      actor: event.transaction.from.toLowerCase(),
+    });
+  }
+
+  private async updateRegistrarConfig(
+    context: Context,
+    event: AdminEvent,
+    values: RegistrarSettings
+  ) {
+    await context.db
+      .insert(registrarConfig)
+      .values({
+        id: event.log.address.toLowerCase(),
+        ...values,
+        updated_at: event.block.timestamp,
+      })
+      .onConflictDoUpdate({ ...values, updated_at: event.block.timestamp });
+  }
+}
@@ -0,0 +1,32 @@
+import { replaceBigInts } from "ponder";
+import { type Context } from "ponder:registry";
+import { eventLog } from "ponder:schema";
+import { Address, Hash } from "viem";
+
+// Parts of a ponder log event stored in the events table
+interface LogEvent {
+  id: string;
+  args: object;
+  block: { number: bigint; timestamp: bigint };
+  transaction: { hash: Hash; from: Address };
+}
+
+// Appends an event to the events table, listeners call it
+// before updating the current state of the name
+export const logEvent = async (
+  context: Context,
+  type: string,
+  node: Hash,
+  event: LogEvent
+) => {
+  await context.db.insert(eventLog).values({
+    id: event.id,
+    type,
+    node,
+    tx_hash: event.transaction.hash,
+    block_number: event.block.number,
+    block_timestamp: event.block.timestamp,
+    actor: event.transaction.from,
+    payload: replaceBigInts(event.args, (value) => String(value)),
+  });
+};
@@ -1,4 +1,7 @@
+import { AdminListener } from "./admin.listener";
+import { PrimaryNameListener } from "./primary-name.listener";
 import { RegistrarListener } from "./registrar.listener";
+import { RegistrarStorageListener } from "./registrar-storage.listener";
 import { RegistryListener } from "./registry.listener";
 import { ResolverListener } from "./resolver.listener";
 
@@ -8,6 +11,9 @@ export class EventListener {
         this.listenOnRegistrarEvents();
         this.listenOnRegistryEvents();
         this.listenOnResolverEvents();
+        this.listenOnPrimaryNameEvents();
+        this.listenOnRegistrarStorageEvents();
+        this.listenOnAdminEvents();
     }
 
     private async listenOnRegistrarEvents() {
@@ -24,4 +30,19 @@ export class EventListener {
         const resolverListener = new ResolverListener();
         await resolverListener.listenOnResolverEvents();
     }
+
+    private async listenOnPrimaryNameEvents() {
+        const primaryNameListener = new PrimaryNameListener();
+        await primaryNameListener.listenOnPrimaryNameEvents();
+    }
+
+    private async listenOnRegistrarStorageEvents() {
+        const registrarStorageListener = new RegistrarStorageListener();
+        await registrarStorageListener.listenOnRegistrarStorageEvents();
+    }
+
+    private async listenOnAdminEvents() {
+        const adminListener = new AdminListener();
+        await adminListener.listenOnAdminEvents();
+    }
 }
\ No newline at end of file
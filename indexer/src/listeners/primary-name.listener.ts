@@ -0,0 +1,160 @@
+import { ponder, type Context } from "ponder:registry";
+import { addressRecord, name, primaryName, reverseNode } from "ponder:schema";
+import { Address, Hash, namehash } from "viem";
+import { getEnvironment } from "../env";
+import { logEvent } from "./event-log";
+import { updateRecord } from "./records";
+
+const env = getEnvironment();
+
+const ETH_COIN = 60n;
+
+type Chain = "celo" | "ethereum";
+
+export class PrimaryNameListener {
+  public async listenOnPrimaryNameEvents() {
+    this.handleNameChanged();
+
+    if (env.eth_rpc_url) {
+      this.handleEnsReverseClaimed();
+      this.handleEnsNameChanged();
+    }
+  }
+
+  private async handleNameChanged() {
+    ponder.on("Resolver:NameChanged", async ({ context, event }) => {
+      const { node, name: fullName } = event.args;
+
+      await logEvent(context, "NameChanged", node, event);
+
+      // NameChanged is also the name record of the node
+      await updateRecord(context, node, { name_record: fullName || null });
+
+      const address = await this.findReverseAddress(
+        context,
+        node,
+        fullName,
+        event.transaction.from
+      );
+      // name record of a forward node, not a primary name
+      if (!address) {
+        return;
+      }
+
+      await this.setPrimaryName(
+        context,
+        "celo",
+        address,
+        node,
+        fullName,
+        event.block.timestamp
+      );
+    });
+  }
+
+  private async handleEnsReverseClaimed() {
+    ponder.on("EnsReverseRegistrar:ReverseClaimed", async ({ context, event }) => {
+      const { addr, node } = event.args;
+
+      await context.db
+        .insert(reverseNode)
+        .values({ id: node, address: addr.toLowerCase() })
+        .onConflictDoNothing();
+    });
+  }
+
+  private async handleEnsNameChanged() {
+    ponder.on("EnsPublicResolver:NameChanged", async ({ context, event }) => {
+      const { node, name: fullName } = event.args;
+
+      // ReverseClaimed is emitted before NameChanged by the reverse registrar
+      const reverse = await context.db.find(reverseNode, { id: node });
+      if (!reverse) {
+        return;
+      }
+
+      // primary names outside of the root name are only used to remove ours
+      const isOwnName = fullName.endsWith(`.${env.root_name}`);
+      await this.setPrimaryName(
+        context,
+        "ethereum",
+        reverse.address as Address,
+        node,
+        isOwnName ? fullName : "",
+        event.block.timestamp
+      );
+    });
+  }
+
+  // Sets or removes ( empty name ) the primary name of an address on a chain
+  private async setPrimaryName(
+    context: Context,
+    chain: Chain,
+    address: Address,
+    reverseNode: Hash,
+    fullName: string,
+    timestamp: bigint
+  ) {
+    const { db } = context;
+    const key = { address: address.toLowerCase(), chain };
+
+    if (!fullName) {
+      await db.delete(primaryName, key);
+      return;
+    }
+
+    const values = {
+      full_name: fullName,
+      name_id: namehash(fullName),
+      reverse_node: reverseNode,
+      updated_at: timestamp,
+    };
+    await db
+      .insert(primaryName)
+      .values({ ...key, ...values })
+      .onConflictDoUpdate(values);
+  }
+
+  // NameChanged only includes the node, the address of a reverse node is found
+  // from a known reverse node or by matching the reverse node of the
+  // sender, the owner and the address record of the name
+  private async findReverseAddress(
+    context: Context,
+    node: Hash,
+    fullName: string,
+    sender: Address
+  ): Promise<Address | null> {
+    const { db } = context;
+
+    const existing = await db.find(reverseNode, { id: node });
+    if (existing) {
+      return existing.address as Address;
+    }
+
+    if (!fullName) {
+      return null;
+    }
+
+    const nameId = namehash(fullName);
+    const registered = await db.find(name, { id: nameId });
+    const ethAddress = await db.find(addressRecord, { node: nameId, coin: ETH_COIN });
+
+    const candidates = [sender, registered?.owner, ethAddress?.value];
+    const address = candidates.find(
+      (candidate) => candidate && this.getReverseNode(candidate as Address) === node
+    );
+    if (!address) {
+      return null;
+    }
+
+    await db
+      .insert(reverseNode)
+      .values({ id: node, address: address.toLowerCase() })
+      .onConflictDoNothing();
+    return address as Address;
+  }
+
+  private getReverseNode(address: Address): Hash {
+    return namehash(`${address.slice(2).toLowerCase()}.addr.reverse`);
+  }
+}
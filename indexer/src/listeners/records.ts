@@ -0,0 +1,48 @@
+import { type Context } from "ponder:registry";
+import {
+  addressRecord,
+  primaryName,
+  record,
+  reverseNode,
+  textRecord,
+} from "ponder:schema";
+import { Hash } from "viem";
+import { EnsAddressRecord, EnsTextRecord } from "./types";
+
+type RecordValues = Omit<typeof record.$inferInsert, "id">;
+
+// Sets columns of the records row of a node, creating the row if needed
+export const updateRecord = async (
+  context: Context,
+  node: Hash,
+  values: RecordValues
+) => {
+  await context.db
+    .insert(record)
+    .values({ id: node, ...values })
+    .onConflictDoUpdate(values);
+};
+
+// Removes every record of a node, including the primary name set on it
+// when it's a reverse node. The registry clears records by bumping the
+// record version, the records are kept on chain but can't be read anymore
+export const clearRecords = async (context: Context, node: Hash) => {
+  const { db } = context;
+
+  // the JSON arrays list every text_records and address_records row of the node
+  const existingRecord = await db.find(record, { id: node });
+  const texts = (existingRecord?.texts as EnsTextRecord[] | null) ?? [];
+  const addresses = (existingRecord?.addresses as EnsAddressRecord[] | null) ?? [];
+  for (const { key } of texts) {
+    await db.delete(textRecord, { node, key });
+  }
+  for (const { coin_type } of addresses) {
+    await db.delete(addressRecord, { node, coin: BigInt(coin_type) });
+  }
+  await db.delete(record, { id: node });
+
+  const reverse = await db.find(reverseNode, { id: node });
+  if (reverse) {
+    await db.delete(primaryName, { address: reverse.address, chain: "celo" });
+  }
+};
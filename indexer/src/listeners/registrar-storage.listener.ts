@@ -0,0 +1,153 @@
+import { ponder, type Context } from "ponder:registry";
+import {
+  blacklistedLabel,
+  registrarStorage,
+  verifiedAddress,
+  whitelistedAddress,
+} from "ponder:schema";
+import { Address } from "viem";
+
+type StorageSettings = Partial<Omit<typeof registrarStorage.$inferInsert, "id">>;
+
+const DEFAULT_SETTINGS = {
+  blacklist_version: 0,
+  whitelist_version: 0,
+  whitelist_enabled: false,
+};
+
+export class RegistrarStorageListener {
+  public async listenOnRegistrarStorageEvents() {
+    this.handleVerificationCompleted();
+    this.handleVerificationDeleted();
+    this.handleClaim();
+    this.handleBlacklistChanged();
+    this.handleWhitelistEntriesUpdated();
+    this.handleWhitelistChanged();
+  }
+
+  private async handleVerificationCompleted() {
+    ponder.on("SelfRegistrar:VerificationCompleted", async ({ context, event }) => {
+      const { user, verificationId, timestamp } = event.args;
+
+      await context.db
+        .insert(verifiedAddress)
+        .values({
+          id: user.toLowerCase(),
+          verification_id: verificationId,
+          is_verified: true,
+          verified_at: timestamp,
+          claim_count: 0,
+        })
+        .onConflictDoUpdate({
+          verification_id: verificationId,
+          is_verified: true,
+          verified_at: timestamp,
+        });
+    });
+  }
+
+  private async handleVerificationDeleted() {
+    ponder.on("RegistrarStorage:VerificationDeleted", async ({ context, event }) => {
+      const { user } = event.args;
+      const { db } = context;
+
+      const existing = await db.find(verifiedAddress, { id: user.toLowerCase() });
+      if (!existing) {
+        console.warn(`Deleted verification of ${user} is not indexed`);
+        return;
+      }
+
+      await db
+        .update(verifiedAddress, { id: existing.id })
+        .set({ is_verified: false });
+    });
+  }
+
+  // Claims are counted for the user passed by the self registrar ( its
+  // `_msgSender()` ), which NameClaimed doesn't include. Reverted calls
+  // are not indexed, so the count follows `claimCount` on chain
+  private async handleClaim() {
+    ponder.on("RegistrarStorage.claim()", async ({ context, event }) => {
+      const [user] = event.args;
+      const { db } = context;
+
+      const existing = await db.find(verifiedAddress, { id: user.toLowerCase() });
+      if (!existing) {
+        console.warn(`Claim of ${user} has no indexed verification`);
+        return;
+      }
+
+      await db
+        .update(verifiedAddress, { id: existing.id })
+        .set((row) => ({ claim_count: row.claim_count + 1 }));
+    });
+  }
+
+  // A new version clears the previous entries on chain, rows of previous
+  // versions are kept and ignored like the contract does
+  private async handleBlacklistChanged() {
+    ponder.on("RegistrarStorage:BlacklistChanged", async ({ context, event }) => {
+      const { labels, enabled, version } = event.args;
+      const { db } = context;
+
+      await this.updateSettings(context, event.log.address, {
+        blacklist_version: version,
+      });
+
+      for (const labelhash of labels) {
+        if (enabled) {
+          await db
+            .insert(blacklistedLabel)
+            .values({ labelhash, version, updated_at: event.block.timestamp })
+            .onConflictDoUpdate({ updated_at: event.block.timestamp });
+        } else {
+          await db.delete(blacklistedLabel, { labelhash, version });
+        }
+      }
+    });
+  }
+
+  private async handleWhitelistEntriesUpdated() {
+    ponder.on("RegistrarStorage:WhitelistEntriesUpdated", async ({ context, event }) => {
+      const { users, enabled, version } = event.args;
+      const { db } = context;
+
+      await this.updateSettings(context, event.log.address, {
+        whitelist_version: version,
+      });
+
+      for (const user of users) {
+        const address = user.toLowerCase();
+        if (enabled) {
+          await db
+            .insert(whitelistedAddress)
+            .values({ address, version, updated_at: event.block.timestamp })
+            .onConflictDoUpdate({ updated_at: event.block.timestamp });
+        } else {
+          await db.delete(whitelistedAddress, { address, version });
+        }
+      }
+    });
+  }
+
+  private async handleWhitelistChanged() {
+    ponder.on("RegistrarStorage:WhitelistChanged", async ({ context, event }) => {
+      const { enabled } = event.args;
+
+      await this.updateSettings(context, event.log.address, {
+        whitelist_enabled: enabled,
+      });
+    });
+  }
+
+  private async updateSettings(
+    context: Context,
+    address: Address,
+    values: StorageSettings
+  ) {
+    await context.db
+      .insert(registrarStorage)
+      .values({ id: address.toLowerCase(), ...DEFAULT_SETTINGS, ...values })
+      .onConflictDoUpdate(values);
+  }
+}
@@ -1,32 +1,81 @@
 import { ponder } from "ponder:registry";
-import { registration } from "ponder:schema";
+import { name, registration, renewal } from "ponder:schema";
 import { namehash, zeroAddress } from "viem";
 import { getEnvironment } from "../env";
+import { logEvent } from "./event-log";
 
 const env = getEnvironment();
 
+// Names claimed through the self registrar are registered for a year
+const SELF_CLAIM_DURATION_YEARS = 1n;
+
 export class RegistrarListener {
   public async listenOnRegistrarEvents() {
     this.handleNameRegistered();
+    this.handleNameRenewed();
     this.handleNameClaimed();
   }
   private async handleNameRegistered() {
     ponder.on("Registrar:NameRegistered", async ({ context, event }) => {
-      const { price, token, node } = event.args;
+      const { price, token, node, durationInYears } = event.args;
       const { number } = event.block;
       const { hash } = event.transaction;
 
+      await logEvent(context, "NameRegistered", node, event);
+
+      // registrations are keyed by event, names registered again
+      // after they expired get a new registration
       await context.db.insert(registration).values({
-        id: node,
+        id: event.id,
+        node,
+        duration_years: durationInYears,
         price_wei: price,
         tx_hash: hash,
         block_number: number,
-        registrar_contract: event.transaction.to as any,
+        registrar_contract: event.log.address,
         tx_sender: event.transaction.from,
         block_timestamp: event.block.timestamp,
         payment_token: token,
         is_self_claim: false,
       });
+
+      // NewName is emitted by the registry before the registrar event
+      await context.db.update(name, { id: node }).set({
+        registration_id: event.id,
+      });
+    });
+  }
+
+  private async handleNameRenewed() {
+    ponder.on("Registrar:NameRenewed", async ({ context, event }) => {
+      const { price, token, node, durationInYears } = event.args;
+      const { number } = event.block;
+      const { hash } = event.transaction;
+      const { db } = context;
+
+      await logEvent(context, "NameRenewed", node, event);
+
+      // ExpiryUpdated is emitted by the registry before the registrar event,
+      // the name already has its extended expiry
+      const renewedName = await db.find(name, { id: node });
+      if (!renewedName) {
+        console.warn(`Renewed name ${node} is not indexed`);
+        return;
+      }
+
+      await db.insert(renewal).values({
+        id: event.id,
+        node,
+        registration_id: renewedName.registration_id,
+        duration_years: durationInYears,
+        price_wei: price,
+        payment_token: token,
+        expiry: renewedName.expiry,
+        tx_hash: hash,
+        block_number: number,
+        tx_sender: event.transaction.from,
+        block_timestamp: event.block.timestamp,
+      });
     });
   }
 
@@ -36,17 +85,25 @@ export class RegistrarListener {
       const { number } = event.block;
       const { hash } = event.transaction;
 
+      await logEvent(context, "NameClaimed", node, event);
+
       await context.db.insert(registration).values({
-        id: node,
+        id: event.id,
+        node,
+        duration_years: SELF_CLAIM_DURATION_YEARS,
         price_wei: 0n,
         tx_hash: hash,
         block_number: number,
-        registrar_contract: event.transaction.to as any,
+        registrar_contract: event.log.address,
         tx_sender: event.transaction.from,
         block_timestamp: event.block.timestamp,
         payment_token: zeroAddress,
         is_self_claim: true,
       });
+
+      await context.db.update(name, { id: node }).set({
+        registration_id: event.id,
+      });
     });
   }
 }
@@ -1,10 +1,28 @@
-import { ponder } from "ponder:registry";
+import { ponder, type Context, type Event } from "ponder:registry";
 import { name } from "ponder:schema";
 import { getEnvironment } from "../env";
-import { zeroAddress } from "viem";
+import {
+  encodePacked,
+  keccak256,
+  labelhash,
+  namehash,
+  numberToHex,
+  zeroAddress,
+  type Hash,
+} from "viem";
 import {CONTRACTS} from "../contracts";;
+import L2_REGISTRY_ABI from "../abis/l2-registry.abi";
+import { logEvent } from "./event-log";
+import { clearRecords } from "./records";
 
 const env = getEnvironment();
+const ROOT_NODE = namehash(env.root_name);
+
+interface ParentName {
+  id: Hash;
+  full_name: string;
+  depth: number;
+}
 
 export class RegistryListener {
   public async listenOnRegistryEvents() {
@@ -12,6 +30,7 @@ export class RegistryListener {
     this.handleExpiryExtended();
     this.handleNameRevoked();
     this.handleNameTransfered();
+    this.handleNameBurned();
   }
 
   private async handleNewName() {
@@ -20,24 +39,31 @@ export class RegistryListener {
       const { timestamp } = event.block;
       const { db } = context;
 
+      await logEvent(context, "NewName", node, event);
+
       const existingName = await db.find(name, {
         id: node,
       });
 
-      const full_name = `${label}.${env.root_name}`;
       if (!existingName?.id) {
+        const parent = await this.findParentName(context, event);
         await context.db.insert(name).values({
           id: node,
           label,
           expiry: expiry,
           owner,
-          full_name: full_name,
-          created_at: timestamp
+          full_name: `${label}.${parent.full_name}`,
+          parent_id: parent.id,
+          depth: parent.depth + 1,
+          created_at: timestamp,
         });
       } else {
+        // an expired name registered again, its records and registration
+        // were reset when the registry burned the previous token
         await db.update(name, { id: node }).set(() => ({
           owner: owner,
           expiry: expiry,
+          created_at: timestamp,
         }));
       }
     });
@@ -48,6 +74,8 @@ export class RegistryListener {
       const { node, expiry } = event.args;
       const { db } = context;
 
+      await logEvent(context, "ExpiryUpdated", node, event);
+
       const existingName = await db.find(name, {
         id: node,
       });
@@ -55,7 +83,9 @@ export class RegistryListener {
       if (!existingName?.id) {
         console.warn("Cannot set expiry for name that doesn't exist");
       } else {
-        await db.update(name, { id: node }).set({ expiry: expiry });
+        await db.update(name, { id: node }).set({
+          expiry: expiry,
+        });
       }
     });
   }
@@ -65,6 +95,8 @@ export class RegistryListener {
       const { node } = event.args;
       const { db } = context;
 
+      await logEvent(context, "NameRevoked", node, event);
+
       await db.delete(name, { id: node })
     });
   }
@@ -74,6 +106,8 @@ export class RegistryListener {
       const { node, newOwner } = event.args;
       const { db } = context;
 
+      await logEvent(context, "NewOwner", node, event);
+
       const internalOwners = [zeroAddress, CONTRACTS.L2_REGISTRAR, CONTRACTS.L2_SELF_REGISTRAR];
       const isInternalOwner = internalOwners
           .find(o => o.toLocaleLowerCase() === newOwner.toLocaleLowerCase());
@@ -90,4 +124,66 @@ export class RegistryListener {
     });
   }
 
+  // The registry burns the token of a name when it's revoked or when
+  // an expired name is registered again, clearing all of its records
+  private async handleNameBurned() {
+    ponder.on("Registry:Transfer", async ({ context, event }) => {
+      const { to, tokenId } = event.args;
+      const { db } = context;
+
+      if (to !== zeroAddress) {
+        return;
+      }
+
+      const node = numberToHex(tokenId, { size: 32 });
+      await logEvent(context, "Transfer", node, event);
+
+      await clearRecords(context, node);
+
+      const existingName = await db.find(name, { id: node });
+      if (existingName) {
+        await db.update(name, { id: node }).set({ registration_id: null });
+      }
+    });
+  }
+
+  // NewName doesn't include the parent node, names under the root are matched
+  // by their nodehash, the parent of deeper names is read from the registry
+  private async findParentName(
+    context: Context<"Registry:NewName">,
+    event: Event<"Registry:NewName">
+  ): Promise<ParentName> {
+    const { node, label } = event.args;
+    if (this.nodehash(label, ROOT_NODE) === node) {
+      return { id: ROOT_NODE, full_name: env.root_name, depth: 0 };
+    }
+
+    const full_name = await context.client.readContract({
+      abi: L2_REGISTRY_ABI,
+      address: event.log.address,
+      functionName: "nameLookup",
+      args: [node],
+    });
+    const parent_name = full_name.slice(label.length + 1);
+    const parent_id = namehash(parent_name);
+    const parent = await context.db.find(name, { id: parent_id });
+
+    if (!parent) {
+      console.warn(`Parent of ${full_name} is not indexed`);
+      const root_depth = env.root_name.split(".").length;
+      return {
+        id: parent_id,
+        full_name: parent_name,
+        depth: parent_name.split(".").length - root_depth,
+      };
+    }
+    return { id: parent_id, full_name: parent.full_name, depth: parent.depth };
+  }
+
+  private nodehash(label: string, parent: Hash): Hash {
+    return keccak256(
+      encodePacked(["bytes32", "bytes32"], [parent, labelhash(label)])
+    );
+  }
+
 }
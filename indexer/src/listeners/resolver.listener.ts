@@ -1,11 +1,21 @@
 import { getCoderByCoinType } from "@ensdomains/address-encoder";
-import { ponder } from "ponder:registry";
-import { record } from "ponder:schema";
+import { ponder, type Context } from "ponder:registry";
+import { addressRecord, record, textRecord } from "ponder:schema";
 import { Hash, toBytes, zeroAddress, zeroHash } from "viem";
 import { decode, encode, getCodec } from "@ensdomains/content-hash";
-import { EnsAddressRecord, EnsTextRecord, EnsContenthash } from "./types";
+import {
+  EnsAbi,
+  EnsAddressRecord,
+  EnsContenthash,
+  EnsInterface,
+  EnsPubkey,
+  EnsTextRecord,
+} from "./types";
+import L2_RESOLVER_ABI from "../abis/l2-resolver.abi";
+import { logEvent } from "./event-log";
+import { clearRecords, updateRecord } from "./records";
 
-const ETH_COIN = 60;
+const ETH_COIN = 60n;
 const ETH_NAME = "eth";
 const UNKNOWN = "unkown";
 
@@ -17,6 +27,10 @@ export class ResolverListener {
     this.handleAddrChanged();
     this.handleAddressChanged();
     this.handleContenthashChanged();
+    this.handlePubkeyChanged();
+    this.handleABIChanged();
+    this.handleInterfaceChanged();
+    this.handleVersionChanged();
   }
 
   private async handleTextChanged() {
@@ -24,31 +38,18 @@ export class ResolverListener {
       const { node, key, value } = event.args;
       const { db } = context;
 
-      const existingRecord = await db.find(record, { id: node });
+      await logEvent(context, "TextChanged", node, event);
 
       // Handle record deletion
       if (!value || value.length === 0) {
-        if (existingRecord?.id) {
-          const texts = (existingRecord.texts || []) as EnsTextRecord[];
-          const updatedTexts = texts.filter(
-            (t: EnsTextRecord) => t.key !== key
-          );
-          await db.update(record, { id: node }).set({ texts: updatedTexts });
-        }
-        return;
-      }
-
-      if (!existingRecord?.id) {
-        await context.db.insert(record).values({
-          id: node,
-          texts: [{ key, value }],
-        });
+        await db.delete(textRecord, { node, key });
+        await this.syncText(context, node, key, null);
       } else {
-        const texts = (existingRecord.texts || []) as EnsTextRecord[];
-        const updatedTexts = texts.filter((t: EnsTextRecord) => t.key !== key);
-        updatedTexts.push({ key, value });
-
-        await db.update(record, { id: node }).set({ texts: updatedTexts });
+        await db
+          .insert(textRecord)
+          .values({ node, key, value })
+          .onConflictDoUpdate({ value });
+        await this.syncText(context, node, key, { key, value });
       }
     });
   }
@@ -56,41 +57,14 @@ export class ResolverListener {
   private async handleAddrChanged() {
     ponder.on("Resolver:AddrChanged", async ({ context, event }) => {
       const { node, a } = event.args;
-      const { db } = context;
 
-      const existingRecord = await db.find(record, { id: node });
+      await logEvent(context, "AddrChanged", node, event);
 
       // Handle removal of an address
       if (this.isZeroAddress(a)) {
-        if (existingRecord?.id) {
-          const addresses = (existingRecord.addresses ||
-            []) as EnsAddressRecord[];
-          const updatedAddresses = addresses.filter(
-            (addr: EnsAddressRecord) => addr.coin !== ETH_COIN
-          );
-          await db
-            .update(record, { id: node })
-            .set({ addresses: updatedAddresses });
-        }
-        return;
-      }
-
-      if (!existingRecord?.id) {
-        await context.db.insert(record).values({
-          id: node,
-          addresses: [{ coin: ETH_COIN, value: a, name: ETH_NAME }], // 60 = ETH
-        });
+        await this.removeAddress(context, node, ETH_COIN);
       } else {
-        const addresses = (existingRecord.addresses ||
-          []) as EnsAddressRecord[];
-        const updatedAddresses = addresses.filter(
-          (addr: EnsAddressRecord) => addr.coin !== ETH_COIN
-        );
-        updatedAddresses.push({ coin: ETH_COIN, value: a, name: ETH_NAME });
-
-        await db
-          .update(record, { id: node })
-          .set({ addresses: updatedAddresses });
+        await this.setAddress(context, node, ETH_COIN, a, ETH_NAME);
       }
     });
   }
@@ -98,54 +72,21 @@ export class ResolverListener {
   private async handleAddressChanged() {
     ponder.on("Resolver:AddressChanged", async ({ context, event }) => {
       const { node, coinType, newAddress } = event.args;
-      const { db } = context;
 
-      const coin_type = Number(coinType);
-      const existingRecord = await db.find(record, { id: node });
+      await logEvent(context, "AddressChanged", node, event);
 
       // Handle removal of an address
       if (this.isZeroAddress(newAddress)) {
-        if (existingRecord?.id) {
-          const addresses = (existingRecord.addresses ||
-            []) as EnsAddressRecord[];
-          const updatedAddresses = addresses.filter(
-            (addr: EnsAddressRecord) => addr.coin !== coin_type
-          );
-          await db
-            .update(record, { id: node })
-            .set({ addresses: updatedAddresses });
-        }
-        return;
-      }
-
-      const parsed_addr = this.parseAddress(newAddress, coin_type);
-
-      if (!existingRecord?.id) {
-        await context.db.insert(record).values({
-          id: node,
-          addresses: [
-            {
-              coin: coin_type,
-              value: parsed_addr.value,
-              name: parsed_addr.name,
-            },
-          ],
-        });
+        await this.removeAddress(context, node, coinType);
       } else {
-        const addresses = (existingRecord.addresses ||
-          []) as EnsAddressRecord[];
-        const updatedAddresses = addresses.filter(
-          (addr: EnsAddressRecord) => addr.coin !== coin_type
+        const parsed_addr = this.parseAddress(newAddress, Number(coinType));
+        await this.setAddress(
+          context,
+          node,
+          coinType,
+          parsed_addr.value,
+          parsed_addr.name
         );
-        updatedAddresses.push({
-          coin: coin_type,
-          value: parsed_addr.value,
-          name: parsed_addr.name,
-        });
-
-        await db
-          .update(record, { id: node })
-          .set({ addresses: updatedAddresses });
       }
     });
   }
@@ -155,6 +96,8 @@ export class ResolverListener {
       const { node, hash } = event.args;
       const { db } = context;
 
+      await logEvent(context, "ContenthashChanged", node, event);
+
       const existingRecord = await db.find(record, { id: node });
       const parsed_contenthash = this.parseContenthash(hash);
 
@@ -171,6 +114,149 @@ export class ResolverListener {
     });
   }
 
+  private async handlePubkeyChanged() {
+    ponder.on("Resolver:PubkeyChanged", async ({ context, event }) => {
+      const { node, x, y } = event.args;
+
+      await logEvent(context, "PubkeyChanged", node, event);
+
+      const isRemoved = x === zeroHash && y === zeroHash;
+      const pubkey: EnsPubkey | null = isRemoved ? null : { x, y };
+      await updateRecord(context, node, { pubkey });
+    });
+  }
+
+  private async handleABIChanged() {
+    ponder.on("Resolver:ABIChanged", async ({ context, event }) => {
+      const { node, contentType } = event.args;
+      const { db } = context;
+
+      await logEvent(context, "ABIChanged", node, event);
+
+      // ABIChanged doesn't include the ABI, it's read at the event block
+      const [, data] = await context.client.readContract({
+        abi: L2_RESOLVER_ABI,
+        address: event.log.address,
+        functionName: "ABI",
+        args: [node, contentType],
+      });
+
+      const existingRecord = await db.find(record, { id: node });
+      const abis = ((existingRecord?.abis as EnsAbi[] | null) ?? []).filter(
+        (abi) => abi.content_type !== Number(contentType)
+      );
+      // empty data removes the ABI of this content type
+      if (data !== "0x") {
+        abis.push({ content_type: Number(contentType), data });
+        abis.sort((a, b) => a.content_type - b.content_type);
+      }
+
+      await updateRecord(context, node, { abis });
+    });
+  }
+
+  private async handleInterfaceChanged() {
+    ponder.on("Resolver:InterfaceChanged", async ({ context, event }) => {
+      const { node, interfaceID, implementer } = event.args;
+      const { db } = context;
+
+      await logEvent(context, "InterfaceChanged", node, event);
+
+      const existingRecord = await db.find(record, { id: node });
+      const interfaces = (
+        (existingRecord?.interfaces as EnsInterface[] | null) ?? []
+      ).filter((item) => item.interface_id !== interfaceID);
+      if (!this.isZeroAddress(implementer)) {
+        interfaces.push({ interface_id: interfaceID, implementer });
+      }
+
+      await updateRecord(context, node, { interfaces });
+    });
+  }
+
+  // clearRecords bumps the record version of the node,
+  // all of its previous records can't be resolved anymore
+  private async handleVersionChanged() {
+    ponder.on("Resolver:VersionChanged", async ({ context, event }) => {
+      const { node } = event.args;
+
+      await logEvent(context, "VersionChanged", node, event);
+
+      await clearRecords(context, node);
+    });
+  }
+
+  private async setAddress(
+    context: Context,
+    node: Hash,
+    coin: bigint,
+    value: string,
+    coin_name: string
+  ) {
+    await context.db
+      .insert(addressRecord)
+      .values({ node, coin, value, coin_name })
+      .onConflictDoUpdate({ value, coin_name });
+    await this.syncAddress(context, node, coin, {
+      coin: Number(coin),
+      coin_type: coin.toString(),
+      value,
+      name: coin_name,
+    });
+  }
+
+  private async removeAddress(context: Context, node: Hash, coin: bigint) {
+    await context.db.delete(addressRecord, { node, coin });
+    await this.syncAddress(context, node, coin, null);
+  }
+
+  // The JSON `texts` and `addresses` of the records table mirror the
+  // text_records and address_records rows, only the changed entry is patched
+  private async syncText(
+    context: Context,
+    node: Hash,
+    key: string,
+    text: EnsTextRecord | null
+  ) {
+    const existingRecord = await context.db.find(record, { id: node });
+    const texts = this.replaceEntry(
+      (existingRecord?.texts as EnsTextRecord[] | null) ?? [],
+      (item) => item.key === key,
+      text
+    );
+    await updateRecord(context, node, { texts });
+  }
+
+  private async syncAddress(
+    context: Context,
+    node: Hash,
+    coin: bigint,
+    address: EnsAddressRecord | null
+  ) {
+    const existingRecord = await context.db.find(record, { id: node });
+    const addresses = this.replaceEntry(
+      (existingRecord?.addresses as EnsAddressRecord[] | null) ?? [],
+      (item) => item.coin_type === coin.toString(),
+      address
+    );
+    await updateRecord(context, node, { addresses });
+  }
+
+  // Replaces the matching entry in place, appends new ones and removes it when null
+  private replaceEntry<T>(
+    entries: T[],
+    matches: (entry: T) => boolean,
+    entry: T | null
+  ): T[] {
+    const index = entries.findIndex(matches);
+    if (index === -1) {
+      return entry ? [...entries, entry] : entries;
+    }
+    return entry
+      ? entries.map((item, i) => (i === index ? entry : item))
+      : entries.filter((_, i) => i !== index);
+  }
+
   private parseAddress(
     value: any,
     coinType: number
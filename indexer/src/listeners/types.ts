@@ -5,6 +5,7 @@ export interface EnsTextRecord {
 
 export interface EnsAddressRecord {
     coin: number
+    coin_type: string // exact coin as a decimal string, `coin` loses precision above 2^53
     value: string
     name?: string
 }
@@ -14,3 +15,18 @@ export interface EnsContenthash {
     decoded: string
     encoded: string
 }
+
+export interface EnsPubkey {
+    x: string
+    y: string
+}
+
+export interface EnsAbi {
+    content_type: number
+    data: string
+}
+
+export interface EnsInterface {
+    interface_id: string
+    implementer: string
+}